@@ -1,23 +1,59 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import { GoogleGenAI } from "@google/genai";
 import dotenv from "dotenv";
+import { openDatabase, createResumeStore, createShareStore, createUserStore, createSessionStore } from "./server/db";
+import { authenticate, createAuthRouter, requireUser } from "./server/auth";
+import { createRateLimiter } from "./server/rateLimit";
+import { createResumeRouter } from "./server/resumes";
+import { createShareRouter } from "./server/share";
+import { createPublicResumeRouter, findStylesheet } from "./server/publicResume";
+import { createAiProvider } from "./server/ai";
+import { createAiRouter } from "./server/aiRoutes";
 
-dotenv.config();
+// The Gemini key now lives only on the server, so read .env.local as Vite used to.
+dotenv.config({ path: [".env.local", ".env"] });
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json());
+  app.use(express.json({ limit: "1mb" }));
+
+  const db = openDatabase();
+  const resumes = createResumeStore(db);
+  const shares = createShareStore(db);
+  const users = createUserStore(db);
+  const sessions = createSessionStore(db);
+  const ai = createAiProvider();
+  const production = process.env.NODE_ENV === "production";
+
+  // Slow down password guessing, and keep one account from running up the AI bill.
+  const authLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, message: "Too many attempts. Try again in a few minutes." });
+  const aiLimiter = createRateLimiter({
+    windowMs: 10 * 60 * 1000,
+    max: 30,
+    message: "Too many AI requests. Try again in a few minutes.",
+    key: (req) => req.user?.id || req.ip || "unknown",
+  });
+
+  app.use(authenticate(users, sessions));
 
   // API Routes
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok" });
   });
 
+  app.use(["/api/auth/login", "/api/auth/signup"], authLimiter);
+  app.use("/api/auth", createAuthRouter(users, sessions, resumes, { secureCookies: production }));
+  app.use("/api/resumes", requireUser, createResumeRouter(resumes));
+  app.use("/api/resumes", requireUser, createShareRouter(shares, resumes));
+  app.use("/api/ai", requireUser, aiLimiter, createAiRouter(ai));
+
+  // Public resume pages are rendered here rather than by the client app.
+  app.use(createPublicResumeRouter(shares, resumes, findStylesheet(production)));
+
   // Vite middleware for development
-  if (process.env.NODE_ENV !== "production") {
+  if (!production) {
     const vite = await createViteServer({
       server: { middlewareMode: true },
       appType: "spa",
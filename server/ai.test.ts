@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createAiProvider, createMockProvider } from "./ai";
+import { normalizeResume } from "../src/schema";
+import type { ResumeData, SummaryOptions } from "../src/types";
+
+const resume = (overrides: Partial<ResumeData> = {}): ResumeData => normalizeResume({
+  name: "Asha Rao",
+  college: "State University",
+  degree: "B.Sc. Computer Science",
+  skills: [{ name: "TypeScript", category: "Languages" }, { name: "React", category: "Frameworks" }],
+  projects: [{ id: "p1", title: "Campus Market", description: "Built a marketplace for students to trade textbooks.", technologies: "React, Node.js, PostgreSQL" }],
+  activities: [{ id: "a1", role: "Coding Club Lead", achievements: "Organized weekly workshops for 40 members." }],
+  ...overrides,
+});
+
+const OPTIONS: SummaryOptions = { tone: "formal", audience: "internship", length: "medium" };
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+describe("createAiProvider", () => {
+  it("uses the mock provider when asked, or when no key is configured", () => {
+    assert.equal(createAiProvider({ AI_PROVIDER: "mock" }).name, "mock");
+    assert.equal(createAiProvider({ GEMINI_API_KEY: "MY_GEMINI_API_KEY" }).name, "mock");
+  });
+
+  it("treats a blank AI_PROVIDER as unset", () => {
+    assert.equal(createAiProvider({ AI_PROVIDER: "" }).name, "mock");
+    assert.equal(createAiProvider({ AI_PROVIDER: "  ", GEMINI_API_KEY: "real-key" }).name, "gemini");
+  });
+
+  it("rejects an unknown provider or gemini without a key", () => {
+    assert.throws(() => createAiProvider({ AI_PROVIDER: "other" }), /Unknown AI_PROVIDER/);
+    assert.throws(() => createAiProvider({ AI_PROVIDER: "gemini" }), /requires GEMINI_API_KEY/);
+  });
+});
+
+describe("mock provider", () => {
+  const provider = createMockProvider();
+
+  it("generates the requested number of distinct, repeatable summaries", async () => {
+    const summaries = await provider.generateSummaries(resume(), OPTIONS, 3);
+    assert.equal(summaries.length, 3);
+    assert.equal(new Set(summaries).size, 3);
+    assert.match(summaries[0], /State University/);
+    assert.deepEqual(await provider.generateSummaries(resume(), OPTIONS, 3), summaries);
+  });
+
+  it("suggests mentioning posting keywords a project lists but never describes", async () => {
+    const [suggestion, ...rest] = await provider.suggestTailoring(resume(), "We use PostgreSQL and Go.", ["PostgreSQL", "Go"]);
+    assert.equal(rest.length, 0);
+    assert.equal(suggestion.section, "projects");
+    assert.equal(suggestion.index, 0);
+    assert.match(suggestion.suggestion, /Built with PostgreSQL\.$/);
+  });
+
+  it("rewrites an entry into bullets that open with a past-tense verb", async () => {
+    const data = resume({ projects: [{ id: "p1", title: "Campus Market", description: "Building a marketplace for students. We were responsible for payments and search.", technologies: "React" }] });
+    const bullets = (await collect(provider.rewriteBullets(data, "projects", 0))).split("\n");
+    assert.deepEqual(bullets, ["Built a marketplace for students", "Implemented payments and search"]);
+  });
+
+  it("skips sentences that are nothing but filler", async () => {
+    const data = resume({ activities: [{ id: "a1", role: "Volunteer", achievements: "I was responsible for.\nWe were involved in.\nRunning the food drive every month." }] });
+    const bullets = (await collect(provider.rewriteBullets(data, "activities", 0))).split("\n");
+    assert.deepEqual(bullets, ["Ran the food drive every month", "Achieved [measurable result] within [timeframe]"]);
+  });
+
+  it("keeps the rule-based draft when structuring an import", async () => {
+    const draft = resume();
+    assert.equal(await provider.structureResume("Asha Rao\nState University", draft), draft);
+  });
+
+  it("writes a cover letter addressed to the company", async () => {
+    const letter = await provider.generateCoverLetter(resume(), { company: "Acme", role: "Intern", jobDescription: "" });
+    assert.equal(letter.greeting, "Dear Acme Hiring Team,");
+    assert.match(letter.evidence[0], /^For Campus Market, I built a marketplace/);
+    assert.match(letter.evidence[1], /^As Coding Club Lead, I organized/);
+  });
+
+  it("falls back to generic evidence when an entry's text is only punctuation", async () => {
+    const data = resume({ projects: [{ id: "p1", title: "Campus Market", description: ".", technologies: "" }] });
+    const letter = await provider.generateCoverLetter(data, { company: "Acme", role: "Intern", jobDescription: "" });
+    assert.equal(letter.evidence[0], "For Campus Market, I built a working product from scratch.");
+  });
+});
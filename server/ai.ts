@@ -0,0 +1,384 @@
+import { GoogleGenAI } from "@google/genai";
+import type { BulletSection, CoverLetterContent, CoverLetterTarget, ResumeData, RewriteSection, SummaryOptions, TailoringSuggestion } from "../src/types";
+import { containsTerm, matchKeywords } from "../src/keywords";
+import { entryText } from "../src/entries";
+import { normalizeResume } from "../src/schema";
+import { SKILL_CATEGORIES, skillNames, softSkills, technicalSkills } from "../src/skills";
+
+export interface AiProvider {
+  name: string;
+  generateSummaries(data: ResumeData, options: SummaryOptions, count: number): Promise<string[]>;
+  suggestTailoring(data: ResumeData, jobDescription: string, keywords: string[]): Promise<TailoringSuggestion[]>;
+  // Streams the rewritten text of one entry as it is generated, one bullet per line.
+  rewriteBullets(data: ResumeData, section: BulletSection, index: number): AsyncIterable<string>;
+  generateCoverLetter(data: ResumeData, target: CoverLetterTarget): Promise<CoverLetterContent>;
+  // Improves a heuristically parsed resume using the raw text it was parsed from.
+  structureResume(text: string, draft: ResumeData): Promise<ResumeData>;
+}
+
+const DEFAULT_SUMMARY = "Passionate student eager to contribute to innovative projects.";
+
+const splitList = (value: string | undefined) =>
+  (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+
+const rewritableEntries = (data: ResumeData) => [
+  ...(data.projects || []).map((project, index) => ({ section: "projects" as const, index, heading: project.title, text: project.description })),
+  ...(data.activities || []).map((activity, index) => ({ section: "activities" as const, index, heading: activity.role, text: activity.achievements })),
+  ...(data.experience || []).map((job, index) => ({ section: "experience" as const, index, heading: `${job.title}, ${job.company}`, text: job.bullets.join("\n") })),
+];
+
+const SUMMARY_WORDS = { short: 50, medium: 100, long: 150 };
+
+const TONE_GUIDES = {
+  formal: "Use a formal, polished voice without exclamation marks or slang.",
+  enthusiastic: "Use a warm, energetic first-person voice that shows genuine excitement.",
+  concise: "Use short, direct sentences and cut every filler word.",
+};
+
+const AUDIENCE_GUIDES = {
+  internship: "The reader is recruiting interns: stress eagerness to learn, coursework and projects.",
+  research: "The reader runs a research group: stress curiosity, analytical work and any research-like projects.",
+  "full-time": "The reader is hiring for a full-time role: stress delivered results, experience and ownership.",
+};
+
+export function summaryPrompt(data: ResumeData, options: SummaryOptions, count: number) {
+  return `Write ${count} alternative LinkedIn "About" sections for a college student with the following details:
+        Name: ${data.name}
+        College: ${data.college}
+        Degree: ${data.degree}
+        Technical Skills: ${skillNames(technicalSkills(data.skills))}
+        Soft Skills: ${skillNames(softSkills(data.skills))}
+        Experience: ${JSON.stringify(data.experience || [])}
+        Projects: ${JSON.stringify(data.projects)}
+        Activities: ${JSON.stringify(data.activities)}
+
+        ${TONE_GUIDES[options.tone]}
+        ${AUDIENCE_GUIDES[options.audience]}
+        Keep each one ATS-friendly and about ${SUMMARY_WORDS[options.length]} words. Make the alternatives
+        genuinely different in structure and emphasis. Never invent facts that are not in the details above.
+        Respond with a JSON array of ${count} strings.`;
+}
+
+export function tailoringPrompt(data: ResumeData, jobDescription: string, keywords: string[]) {
+  return `You are helping a student tailor their resume to a job posting.
+
+Job posting:
+${jobDescription}
+
+Keywords the posting emphasises: ${keywords.join(", ")}
+Candidate skills: ${skillNames(technicalSkills(data.skills))}
+
+Resume entries (JSON):
+${JSON.stringify(rewritableEntries(data))}
+
+Reword only the entries where the candidate's existing work genuinely relates to the posting, so that
+matching keywords appear naturally. Never invent skills, tools or results that are not already implied by the entry.
+Respond with a JSON array of objects { "section": string, "index": number, "suggestion": string },
+using the same section and index values as the input. Return an empty array if nothing should change.`;
+}
+
+export function bulletsPrompt(data: ResumeData, section: BulletSection, index: number) {
+  const entry = section === "projects"
+    ? `Project: ${data.projects[index].title}\nTechnologies: ${data.projects[index].technologies}`
+    : `Role: ${data.activities[index].role}`;
+  return `Rewrite this resume entry written by a student into 2 to 4 resume bullets.
+
+${entry}
+Original text:
+${entryText(data, section, index)}
+
+Each bullet must start with a strong past-tense action verb and state a concrete result.
+Quantify impact with numbers already present in the text; where a number is clearly implied but missing,
+use a placeholder such as [X users] for the student to fill in. Never invent tools, responsibilities or results.
+Write one bullet per line with no bullet characters, numbering or any other text.`;
+}
+
+export function coverLetterPrompt(data: ResumeData, target: CoverLetterTarget) {
+  return `Write a cover letter for a student applying for the ${target.role} role at ${target.company}.
+
+Candidate:
+Name: ${data.name}
+College: ${data.college}
+Degree: ${data.degree}
+Technical Skills: ${skillNames(technicalSkills(data.skills))}
+Experience: ${JSON.stringify(data.experience || [])}
+Projects: ${JSON.stringify(data.projects)}
+Activities: ${JSON.stringify(data.activities)}
+${target.jobDescription ? `\nJob posting:\n${target.jobDescription}\n` : ""}
+Respond with a JSON object { "greeting": string, "hook": string, "evidence": [string, string], "closing": string }:
+- greeting: the salutation line, addressed to the hiring team if no person is known.
+- hook: one short paragraph on why this role at this company, naming both.
+- evidence: exactly two paragraphs, each built on one specific project or activity above and what it shows about the candidate.
+- closing: one short paragraph with a call to action and thanks, without a sign-off or name.
+Keep the whole letter under 350 words and never invent facts that are not in the candidate details.`;
+}
+
+export function structurePrompt(text: string, draft: ResumeData) {
+  return `Extract a structured resume from the text below, which was copied from a document or PDF.
+
+Resume text:
+${text}
+
+A rule-based parser already produced this draft (JSON); fix what it got wrong and fill in what it missed:
+${JSON.stringify(draft)}
+
+Respond with a JSON object with exactly the same fields as the draft. Dates use "YYYY-MM" or "" when unknown.
+Skills are objects { "name": string, "category": string } with category one of ${SKILL_CATEGORIES.join(", ")}. Experience bullets are an array of strings without bullet characters.
+Copy wording from the text; never invent entries, dates or details that are not in it.`;
+}
+
+// Drops anything malformed so a partial model response still yields an editable letter.
+function toCoverLetter(raw: unknown): CoverLetterContent {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const fields = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const evidence = Array.isArray(fields.evidence) ? fields.evidence.map(text).filter(Boolean).slice(0, 2) : [];
+  return {
+    greeting: text(fields.greeting),
+    hook: text(fields.hook),
+    evidence: [evidence[0] || "", evidence[1] || ""],
+    closing: text(fields.closing),
+  };
+}
+
+const toSummaries = (raw: unknown, count: number) =>
+  (Array.isArray(raw) ? raw : [])
+    .filter((item): item is string => typeof item === "string" && !!item.trim())
+    .map((item) => item.trim())
+    .slice(0, count);
+
+const isRewriteSection = (value: unknown): value is RewriteSection =>
+  value === "projects" || value === "activities" || value === "experience";
+
+// Keeps only well-formed suggestions that point at a real entry and actually change it.
+function toSuggestions(data: ResumeData, raw: unknown): TailoringSuggestion[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) => {
+    if (!isRewriteSection(item?.section) || typeof item.index !== "number" || typeof item.suggestion !== "string") return [];
+    const original = entryText(data, item.section, item.index);
+    const suggestion = item.suggestion.trim();
+    if (original === null || !suggestion || suggestion === original.trim()) return [];
+    return [{ section: item.section, index: item.index, original, suggestion }];
+  });
+}
+
+export function createGeminiProvider(apiKey: string, model = "gemini-3-flash-preview"): AiProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateJson = async (contents: string): Promise<unknown> => {
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: { responseMimeType: "application/json" },
+    });
+    return JSON.parse(response.text || "null");
+  };
+
+  return {
+    name: "gemini",
+    async generateSummaries(data, options, count) {
+      const summaries = toSummaries(await generateJson(summaryPrompt(data, options, count)), count);
+      return summaries.length > 0 ? summaries : [DEFAULT_SUMMARY];
+    },
+    async suggestTailoring(data, jobDescription, keywords) {
+      return toSuggestions(data, await generateJson(tailoringPrompt(data, jobDescription, keywords)));
+    },
+    async generateCoverLetter(data, target) {
+      return toCoverLetter(await generateJson(coverLetterPrompt(data, target)));
+    },
+    async structureResume(text, draft) {
+      const raw = await generateJson(structurePrompt(text, draft));
+      return typeof raw === "object" && raw !== null && !Array.isArray(raw) ? normalizeResume(raw) : draft;
+    },
+    async *rewriteBullets(data, section, index) {
+      const stream = await ai.models.generateContentStream({ model, contents: bulletsPrompt(data, section, index) });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
+
+const LEADING_FILLER = /^(i|we|it|they|my team|our team)\s+(was|were)?\s*(responsible for|involved in|in charge of)?\s*/i;
+const IRREGULAR_PAST: Record<string, string> = {
+  build: "built", building: "built", lead: "led", leading: "led", run: "ran", running: "ran",
+  write: "wrote", writing: "wrote", make: "made", making: "made", teach: "taught", teaching: "taught", win: "won",
+};
+
+// Turns one sentence into a bullet that opens with a past-tense verb, without adding new facts.
+// A sentence that is nothing but filler ("I was responsible for.") has no bullet.
+function toMockBullet(sentence: string, fallbackVerb: string) {
+  const text = sentence.replace(LEADING_FILLER, "").replace(/[.;]+$/, "").trim();
+  if (!text) return null;
+  const [first, ...rest] = text.split(/\s+/);
+  const word = first.toLowerCase();
+  const past = IRREGULAR_PAST[word] || (/ed$/.test(word) ? word : /ing$/.test(word) ? word.replace(/ing$/, "ed") : null);
+  if (past) return [`${past[0].toUpperCase()}${past.slice(1)}`, ...rest].join(" ");
+  return `${fallbackVerb} ${text[0].toLowerCase()}${text.slice(1)}`;
+}
+
+function mockBullets(data: ResumeData, section: BulletSection, index: number) {
+  const text = entryText(data, section, index) || "";
+  const sentences = text
+    .split(/\n|(?<=[.!?])\s+/)
+    .map((sentence) => sentence.replace(/^\s*[-•*]\s*/, "").trim())
+    .filter((sentence) => sentence.split(/\s+/).length >= 3);
+  const verbs = section === "projects" ? ["Developed", "Implemented", "Delivered", "Designed"] : ["Organized", "Coordinated", "Led", "Supported"];
+  const bullets: string[] = [];
+  for (const sentence of sentences) {
+    const bullet = bullets.length < verbs.length && toMockBullet(sentence, verbs[bullets.length]);
+    if (bullet) bullets.push(bullet);
+  }
+
+  if (section === "projects" && bullets.length < 2) {
+    const technologies = splitList(data.projects[index].technologies);
+    if (technologies.length > 0) bullets.push(`Built with ${technologies.join(", ")}, serving [X users]`);
+  }
+  if (bullets.length < 2) bullets.push("Achieved [measurable result] within [timeframe]");
+  return bullets.join("\n");
+}
+
+const MOCK_CLOSINGS = {
+  internship: "Looking for an internship where I can learn from experienced engineers and ship real features.",
+  research: "Interested in research opportunities that turn open questions into working prototypes.",
+  "full-time": "Ready to take ownership of meaningful work in a full-time role.",
+};
+
+// Builds a summary from the resume's own facts; tone, length and variant change wording and emphasis only.
+function mockSummary(data: ResumeData, options: SummaryOptions, variant: number) {
+  const skills = technicalSkills(data.skills).slice(0, 3).map((skill) => skill.name);
+  const projects = (data.projects || []).map((project) => project.title).filter(Boolean);
+  const roles = (data.activities || []).map((activity) => activity.role).filter(Boolean);
+  const jobs = (data.experience || []).filter((job) => job.title && job.company);
+  const degree = data.degree || "Student";
+  const college = data.college || "university";
+
+  const openings = {
+    formal: [
+      `${degree} student at ${college} focused on building reliable, real-world software.`,
+      `Currently pursuing ${degree} at ${college}, with a practical focus on software development.`,
+      `${college} ${degree} student combining coursework with hands-on engineering.`,
+    ],
+    enthusiastic: [
+      `I'm a ${degree} student at ${college} who loves turning ideas into real software!`,
+      `Building things is what gets me excited, and as a ${degree} student at ${college} I do it every day.`,
+      `Hi! I study ${degree} at ${college} and can't stop building.`,
+    ],
+    concise: [
+      `${degree} student, ${college}.`,
+      `${degree} at ${college}. I build software.`,
+      `Student developer at ${college} (${degree}).`,
+    ],
+  };
+
+  const facts: string[] = [];
+  if (jobs.length > 0) facts.push(`Gained industry experience as ${jobs[0].title} at ${jobs[0].company}.`);
+  if (skills.length > 0) facts.push(options.tone === "concise" ? `Skills: ${skills.join(", ")}.` : `Hands-on experience with ${skills.join(", ")}.`);
+  if (projects.length > 0) facts.push(`Built ${projects.join(" and ")}, turning ideas into working products.`);
+  if (roles.length > 0) facts.push(`Outside the classroom, serves as ${roles[0]}.`);
+  // Later variants lead with a different fact so the alternatives read differently.
+  const rotated = facts.map((_, i) => facts[(i + variant) % facts.length]);
+
+  const factCount = { short: 1, medium: 3, long: facts.length }[options.length];
+  return [openings[options.tone][variant % 3], ...rotated.slice(0, factCount), MOCK_CLOSINGS[options.audience]].join(" ");
+}
+
+const firstSentence = (text: string) => text.split(/\n|(?<=[.!?])\s+/)[0]?.replace(/^\s*[-•*]\s*/, "").replace(/[.!?]$/, "").trim() || "";
+
+// "Built a store" becomes "I built a store"; sentences that don't open with a verb are kept as they are.
+const asFirstPerson = (sentence: string) => {
+  if (!sentence) return "";
+  const first = sentence.split(/\s+/)[0].toLowerCase();
+  const isVerb = /ed$/.test(first) || Object.values(IRREGULAR_PAST).includes(first);
+  return isVerb ? `I ${sentence[0].toLowerCase()}${sentence.slice(1)}` : `${sentence[0].toLowerCase()}${sentence.slice(1)}`;
+};
+
+function mockCoverLetter(data: ResumeData, { company, role, jobDescription }: CoverLetterTarget): CoverLetterContent {
+  const projects = (data.projects || []).filter((project) => project.title);
+  const activities = (data.activities || []).filter((activity) => activity.role);
+  const matched = jobDescription ? matchKeywords(jobDescription, data).matched.slice(0, 3).map((keyword) => keyword.term) : [];
+
+  const projectParagraph = (project: ResumeData["projects"][number]) =>
+    [
+      `For ${project.title}, ${asFirstPerson(firstSentence(project.description)) || "I built a working product from scratch"}.`,
+      project.technologies && `The work gave me hands-on practice with ${project.technologies}.`,
+    ].filter(Boolean).join(" ");
+  const activityParagraph = (activity: ResumeData["activities"][number]) =>
+    `As ${activity.role}, ${asFirstPerson(firstSentence(activity.achievements)) || "I learned to work with and for a team"}. It taught me to take ownership and follow through.`;
+
+  const evidence = [
+    projects[0] ? projectParagraph(projects[0]) : "",
+    activities[0] ? activityParagraph(activities[0]) : projects[1] ? projectParagraph(projects[1]) : "",
+  ];
+
+  return {
+    greeting: `Dear ${company} Hiring Team,`,
+    hook: [
+      `I am excited to apply for the ${role} position at ${company}.`,
+      `As a ${data.degree || "student"} student at ${data.college || "university"}, I enjoy turning ideas into working software.`,
+      matched.length > 0 && `My experience with ${matched.join(", ")} lines up closely with what your team is looking for.`,
+    ].filter(Boolean).join(" "),
+    evidence,
+    closing: `I would welcome the chance to discuss how I can contribute to ${company}. Thank you for your time and consideration.`,
+  };
+}
+
+// Deterministic, network-free provider for local development and tests.
+// Output depends only on the input so repeated calls return identical text.
+export function createMockProvider(): AiProvider {
+  return {
+    name: "mock",
+    async generateSummaries(data, options, count) {
+      return Array.from({ length: count }, (_, variant) => mockSummary(data, options, variant));
+    },
+    // Surfaces posting keywords a project already lists under technologies but never mentions in its description.
+    async suggestTailoring(data, jobDescription, keywords) {
+      return (data.projects || []).flatMap((project, index) => {
+        const unmentioned = keywords.filter(
+          (keyword) => containsTerm(project.technologies, keyword) && !containsTerm(project.description, keyword)
+        );
+        if (unmentioned.length === 0) return [];
+        const original = project.description;
+        const base = original.trim().replace(/\.?$/, ".");
+        return [{ section: "projects" as const, index, original, suggestion: `${base} Built with ${unmentioned.join(", ")}.` }];
+      });
+    },
+    async generateCoverLetter(data, target) {
+      return mockCoverLetter(data, target);
+    },
+    // The rule-based parse is already the best offline guess.
+    async structureResume(_text, draft) {
+      return draft;
+    },
+    // Streams word by word with a short pause so the client's incremental rendering can be exercised offline.
+    async *rewriteBullets(data, section, index) {
+      for (const word of mockBullets(data, section, index).split(/(?<=\s)/)) {
+        await new Promise((resolve) => setTimeout(resolve, 15));
+        yield word;
+      }
+    },
+  };
+}
+
+const isConfiguredKey = (apiKey: string | undefined): apiKey is string =>
+  !!apiKey && apiKey !== "MY_GEMINI_API_KEY" && apiKey !== "undefined";
+
+// AI_PROVIDER selects the implementation explicitly; when unset or blank we use
+// Gemini if a key is configured and fall back to the mock provider otherwise.
+export function createAiProvider(env: NodeJS.ProcessEnv = process.env): AiProvider {
+  const requested = env.AI_PROVIDER?.trim().toLowerCase() || undefined;
+
+  if (requested === "mock") return createMockProvider();
+
+  if (requested === "gemini" || requested === undefined) {
+    if (isConfiguredKey(env.GEMINI_API_KEY)) {
+      return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined);
+    }
+    if (requested === "gemini") {
+      throw new Error("AI_PROVIDER=gemini requires GEMINI_API_KEY to be set");
+    }
+    console.warn("GEMINI_API_KEY is not configured; using the offline mock AI provider.");
+    return createMockProvider();
+  }
+
+  throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}"`);
+}
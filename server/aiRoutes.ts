@@ -0,0 +1,126 @@
+import { Router } from "express";
+import type { AiProvider } from "./ai";
+import type { ResumeData, SummaryOptions } from "../src/types";
+import { entryText } from "../src/entries";
+import { normalizeResume, summaryOptionsSchema } from "../src/schema";
+
+const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = { tone: "formal", audience: "internship", length: "medium" };
+const DEFAULT_SUMMARY_VARIANTS = 3;
+const MAX_SUMMARY_VARIANTS = 5;
+
+// AI features also run on unfinished drafts, so resume data is migrated and
+// normalized here rather than held to the full form rules. Data too malformed
+// to normalize (e.g. a string where a list belongs) is rejected like missing data,
+// since a throw here would escape the handlers' try blocks.
+const readResume = (value: unknown): ResumeData | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return null;
+  try {
+    return normalizeResume(value);
+  } catch {
+    return null;
+  }
+};
+
+export function createAiRouter(provider: AiProvider) {
+  const router = Router();
+
+  router.post("/summary", async (req, res) => {
+    const { options, count } = req.body ?? {};
+    const data = readResume(req.body?.data);
+    if (!data) {
+      res.status(400).json({ error: "Request body must include resume data" });
+      return;
+    }
+    if (options !== undefined && !summaryOptionsSchema.safeParse(options).success) {
+      res.status(400).json({ error: "Summary options must include a valid tone, audience and length" });
+      return;
+    }
+    const variants = Number.isInteger(count) ? Math.min(Math.max(count, 1), MAX_SUMMARY_VARIANTS) : DEFAULT_SUMMARY_VARIANTS;
+    try {
+      const summaries = await provider.generateSummaries(data, options ?? DEFAULT_SUMMARY_OPTIONS, variants);
+      res.json({ summaries, provider: provider.name });
+    } catch (error) {
+      console.error("Error generating summary:", error);
+      res.status(502).json({ error: "AI provider failed to generate a summary" });
+    }
+  });
+
+  router.post("/tailor", async (req, res) => {
+    const { jobDescription, keywords } = req.body ?? {};
+    const data = readResume(req.body?.data);
+    if (!data || typeof jobDescription !== "string" || !jobDescription.trim()) {
+      res.status(400).json({ error: "Request body must include resume data and a job description" });
+      return;
+    }
+    const terms = Array.isArray(keywords) ? keywords.filter((term): term is string => typeof term === "string") : [];
+    try {
+      const suggestions = await provider.suggestTailoring(data, jobDescription, terms);
+      res.json({ suggestions, provider: provider.name });
+    } catch (error) {
+      console.error("Error tailoring resume:", error);
+      res.status(502).json({ error: "AI provider failed to suggest tailoring" });
+    }
+  });
+
+  router.post("/cover-letter", async (req, res) => {
+    const { company, role, jobDescription } = req.body ?? {};
+    const data = readResume(req.body?.data);
+    if (!data || typeof company !== "string" || !company.trim() || typeof role !== "string" || !role.trim()) {
+      res.status(400).json({ error: "Request body must include resume data, a company and a role" });
+      return;
+    }
+    const target = { company: company.trim(), role: role.trim(), jobDescription: typeof jobDescription === "string" ? jobDescription : "" };
+    try {
+      const letter = await provider.generateCoverLetter(data, target);
+      res.json({ letter, provider: provider.name });
+    } catch (error) {
+      console.error("Error generating cover letter:", error);
+      res.status(502).json({ error: "AI provider failed to generate a cover letter" });
+    }
+  });
+
+  router.post("/import", async (req, res) => {
+    const { text } = req.body ?? {};
+    const draft = readResume(req.body?.draft);
+    if (typeof text !== "string" || !text.trim() || !draft) {
+      res.status(400).json({ error: "Request body must include the resume text and the parsed draft" });
+      return;
+    }
+    try {
+      const data = await provider.structureResume(text, draft);
+      res.json({ data, provider: provider.name });
+    } catch (error) {
+      console.error("Error structuring imported resume:", error);
+      res.status(502).json({ error: "AI provider failed to structure the resume" });
+    }
+  });
+
+  // Streams plain text as the provider produces it; clients append chunks until the response ends.
+  router.post("/rewrite", async (req, res) => {
+    const { section, index } = req.body ?? {};
+    const data = readResume(req.body?.data);
+    const valid = !!data && (section === "projects" || section === "activities") && Number.isInteger(index);
+    if (!valid || !entryText(data, section, index)?.trim()) {
+      res.status(400).json({ error: "Request body must include resume data and a non-empty project or activity entry" });
+      return;
+    }
+    try {
+      for await (const chunk of provider.rewriteBullets(data, section, index)) {
+        // The client closed the connection, e.g. the user rejected the rewrite mid-stream.
+        if (res.destroyed) return;
+        if (!res.headersSent) {
+          res.setHeader("Content-Type", "text/plain; charset=utf-8");
+          res.setHeader("Cache-Control", "no-cache");
+        }
+        res.write(chunk);
+      }
+      res.end();
+    } catch (error) {
+      console.error("Error rewriting entry:", error);
+      if (res.headersSent) res.end();
+      else res.status(502).json({ error: "AI provider failed to rewrite the entry" });
+    }
+  });
+
+  return router;
+}
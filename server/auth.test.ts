@@ -0,0 +1,43 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { createAuthRouter } from "./auth";
+import { openDatabase, createResumeStore, createSessionStore, createUserStore } from "./db";
+
+describe("auth router", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const db = openDatabase(":memory:");
+    const app = express();
+    app.use(express.json());
+    app.use("/api/auth", createAuthRouter(createUserStore(db), createSessionStore(db), createResumeStore(db)));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/auth`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+  it("answers 409 to one of two simultaneous signups for the same email", async () => {
+    const credentials = { email: "asha@example.com", password: "correct horse" };
+    const responses = await Promise.all([post("/signup", credentials), post("/signup", credentials)]);
+    assert.deepEqual(responses.map((response) => response.status).sort(), [201, 409]);
+    assert.equal((await post("/login", credentials)).status, 200);
+  });
+
+  it("gives unknown emails and wrong passwords the same answer", async () => {
+    const unknown = await post("/login", { email: "nobody@example.com", password: "correct horse" });
+    const wrong = await post("/login", { email: "asha@example.com", password: "wrong password" });
+    assert.equal(unknown.status, 401);
+    assert.deepEqual(await unknown.json(), await wrong.json());
+  });
+});
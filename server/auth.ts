@@ -0,0 +1,151 @@
+import { Router, type RequestHandler, type Response } from "express";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { ResumeStore, SessionStore, UserStore } from "./db";
+import type { User } from "../src/types";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate() when the request carries a valid session cookie.
+      user?: User;
+    }
+  }
+}
+
+const SESSION_COOKIE = "sid";
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+const scryptKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/** Salted scrypt hash, stored as "scrypt$<salt>$<key>" so the scheme can change later. */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptKey(password, salt);
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await scryptKey(password, Buffer.from(salt, "base64"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Compared against on logins for unknown emails, so they take as long as a wrong password.
+let dummyHash: Promise<string> | undefined;
+const getDummyHash = () => (dummyHash ??= hashPassword(randomBytes(16).toString("base64")));
+
+const readCookie = (header: string | undefined, name: string) => {
+  const pair = (header || "").split(";").map((part) => part.trim()).find((part) => part.startsWith(`${name}=`));
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : null;
+};
+
+const isEmail = (value: unknown): value is string =>
+  typeof value === "string" && value.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/** Resolves the session cookie, if any, to req.user. Never rejects a request by itself. */
+export function authenticate(users: UserStore, sessions: SessionStore): RequestHandler {
+  return (req, res, next) => {
+    const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+    const userId = token && sessions.userId(token);
+    req.user = (userId && users.get(userId)) || undefined;
+    next();
+  };
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Sign in to continue" });
+    return;
+  }
+  next();
+};
+
+// Answers 404 rather than 403 for other users' resumes so ids can't be probed.
+export const requireResumeOwner = (resumes: ResumeStore): RequestHandler => (req, res, next) => {
+  if (!req.user || !resumes.isOwner(req.params.id, req.user.id)) {
+    res.status(404).json({ error: "Resume not found" });
+    return;
+  }
+  next();
+};
+
+export function createAuthRouter(users: UserStore, sessions: SessionStore, resumes: ResumeStore, { secureCookies = false } = {}) {
+  const router = Router();
+
+  const startSession = (res: Response, user: User) => {
+    const { token, expiresAt } = sessions.create(user.id);
+    res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: "lax", secure: secureCookies, expires: expiresAt, path: "/" });
+  };
+
+  const readCredentials = (body: unknown) => {
+    const { email, password } = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+    return {
+      email: typeof email === "string" ? email.trim().toLowerCase() : "",
+      password: typeof password === "string" ? password : "",
+    };
+  };
+
+  router.post("/signup", async (req, res) => {
+    const { email, password } = readCredentials(req.body);
+    if (!isEmail(email) || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Enter a valid email and a password of at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+    if (users.findByEmail(email)) {
+      res.status(409).json({ error: "An account with this email already exists" });
+      return;
+    }
+    const firstAccount = users.count() === 0;
+    const passwordHash = await hashPassword(password);
+    let user: User;
+    try {
+      user = users.create(email, passwordHash);
+    } catch (error) {
+      // Another signup for the same email can finish while this one is hashing.
+      if ((error as { code?: unknown }).code === "SQLITE_CONSTRAINT_UNIQUE") {
+        res.status(409).json({ error: "An account with this email already exists" });
+      } else {
+        console.error("Error creating account:", error);
+        res.status(500).json({ error: "Failed to create account" });
+      }
+      return;
+    }
+    if (firstAccount) resumes.claimUnowned(user.id);
+    startSession(res, user);
+    res.status(201).json(user);
+  });
+
+  router.post("/login", async (req, res) => {
+    const { email, password } = readCredentials(req.body);
+    const account = email ? users.findByEmail(email) : null;
+    // The same message and the same scrypt work for unknown emails and wrong passwords, so accounts can't be enumerated.
+    const valid = await verifyPassword(password, account ? account.passwordHash : await getDummyHash());
+    if (!account || !valid) {
+      res.status(401).json({ error: "Invalid email or password" });
+      return;
+    }
+    const { passwordHash, ...user } = account;
+    startSession(res, user);
+    res.json(user);
+  });
+
+  router.post("/logout", (req, res) => {
+    const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+    if (token) sessions.remove(token);
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+    res.status(204).end();
+  });
+
+  // null when signed out, so the client can check without treating it as an error.
+  router.get("/me", (req, res) => {
+    res.json(req.user ?? null);
+  });
+
+  return router;
+}
@@ -0,0 +1,316 @@
+import Database from "better-sqlite3";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { ResumeData, ResumeRecord, ResumeSummary, ResumeVersion, ResumeVersionRecord, ShareLink, User } from "../src/types";
+import { calculateResumeScore } from "../src/lint";
+import { SCHEMA_VERSION, normalizeResume } from "../src/schema";
+
+interface VersionRow {
+  id: number;
+  data: string;
+  score: number;
+  created_at: string;
+}
+
+interface ShareRow {
+  slug: string;
+  resume_id: string;
+  enabled: number;
+  expires_at: string | null;
+  views: number;
+  created_at: string;
+}
+
+interface ResumeRow {
+  id: string;
+  data: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+}
+
+const toShareLink = (row: ShareRow): ShareLink => ({
+  slug: row.slug,
+  enabled: row.enabled === 1,
+  expiresAt: row.expires_at,
+  views: row.views,
+  createdAt: row.created_at,
+});
+
+const toUser = (row: UserRow): User => ({ id: row.id, email: row.email, createdAt: row.created_at });
+
+const toRecord = (row: ResumeRow): ResumeRecord => ({
+  id: row.id,
+  data: normalizeResume(JSON.parse(row.data)),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export function openDatabase(filename = process.env.DATABASE_PATH || "resumes.db") {
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS resumes (
+      id TEXT PRIMARY KEY,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS resume_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      resume_id TEXT NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+      data TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS resume_versions_resume_id ON resume_versions (resume_id, id);
+
+    CREATE TABLE IF NOT EXISTS share_links (
+      slug TEXT PRIMARY KEY,
+      resume_id TEXT NOT NULL UNIQUE REFERENCES resumes(id) ON DELETE CASCADE,
+      enabled INTEGER NOT NULL,
+      expires_at TEXT,
+      views INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+  `);
+
+  // Databases created before accounts existed have no owner column yet.
+  const resumeColumns = db.prepare("PRAGMA table_info(resumes)").all() as { name: string }[];
+  if (!resumeColumns.some((column) => column.name === "user_id")) {
+    db.exec("ALTER TABLE resumes ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS resumes_user_id ON resumes (user_id, updated_at)");
+
+  migrateDocuments(db);
+  return db;
+}
+
+// Rewrites resumes and saved versions from older schema versions in the current shape,
+// so stored documents never lag behind the app. Reads migrate too, as a safety net.
+function migrateDocuments(db: Database.Database) {
+  const outdated = "IFNULL(json_extract(data, '$.schemaVersion'), 0) < ?";
+  const upgrade = db.transaction((table: "resumes" | "resume_versions") => {
+    const rows = db.prepare(`SELECT rowid, data FROM ${table} WHERE ${outdated}`).all(SCHEMA_VERSION) as { rowid: number; data: string }[];
+    const update = db.prepare(`UPDATE ${table} SET data = ? WHERE rowid = ?`);
+    rows.forEach((row) => update.run(JSON.stringify(normalizeResume(JSON.parse(row.data))), row.rowid));
+    return rows.length;
+  });
+  const migrated = upgrade("resumes") + upgrade("resume_versions");
+  if (migrated > 0) console.log(`Migrated ${migrated} stored resume documents to schema version ${SCHEMA_VERSION}`);
+}
+
+export function createResumeStore(db: Database.Database) {
+  return {
+    list(userId: string): ResumeSummary[] {
+      const rows = db
+        .prepare("SELECT id, data, created_at, updated_at FROM resumes WHERE user_id = ? ORDER BY updated_at DESC")
+        .all(userId) as ResumeRow[];
+      return rows.map((row) => {
+        const record = toRecord(row);
+        return {
+          id: record.id,
+          name: record.data.name || "Untitled resume",
+          updatedAt: record.updatedAt,
+          variants: (record.data.variants ?? []).map(({ id, name }) => ({ id, name })),
+        };
+      });
+    },
+
+    get(id: string): ResumeRecord | null {
+      const row = db
+        .prepare("SELECT id, data, created_at, updated_at FROM resumes WHERE id = ?")
+        .get(id) as ResumeRow | undefined;
+      return row ? toRecord(row) : null;
+    },
+
+    create(userId: string, data: ResumeData): ResumeRecord {
+      const id = randomUUID();
+      const now = new Date().toISOString();
+      db.prepare("INSERT INTO resumes (id, user_id, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+        .run(id, userId, JSON.stringify(data), now, now);
+      return { id, data, createdAt: now, updatedAt: now };
+    },
+
+    isOwner(id: string, userId: string): boolean {
+      return !!db.prepare("SELECT 1 FROM resumes WHERE id = ? AND user_id = ?").get(id, userId);
+    },
+
+    // Resumes saved before accounts existed belong to nobody until the first account claims them.
+    claimUnowned(userId: string): number {
+      return db.prepare("UPDATE resumes SET user_id = ? WHERE user_id IS NULL").run(userId).changes;
+    },
+
+    update(id: string, data: ResumeData): ResumeRecord | null {
+      const now = new Date().toISOString();
+      const result = db
+        .prepare("UPDATE resumes SET data = ?, updated_at = ? WHERE id = ?")
+        .run(JSON.stringify(data), now, id);
+      return result.changes > 0 ? this.get(id) : null;
+    },
+
+    // Scores are computed once at save time so the history list needs no resume bodies.
+    snapshot(id: string, data: ResumeData): ResumeVersion {
+      const now = new Date().toISOString();
+      const { score } = calculateResumeScore(normalizeResume(data), data.linkedinAbout || "");
+      const result = db
+        .prepare("INSERT INTO resume_versions (resume_id, data, score, created_at) VALUES (?, ?, ?, ?)")
+        .run(id, JSON.stringify(data), score, now);
+      return { id: Number(result.lastInsertRowid), createdAt: now, score };
+    },
+
+    listVersions(id: string): ResumeVersion[] {
+      const rows = db
+        .prepare("SELECT id, score, created_at FROM resume_versions WHERE resume_id = ? ORDER BY id DESC")
+        .all(id) as Omit<VersionRow, "data">[];
+      return rows.map((row) => ({ id: row.id, createdAt: row.created_at, score: row.score }));
+    },
+
+    getVersion(id: string, versionId: number): ResumeVersionRecord | null {
+      const row = db
+        .prepare("SELECT id, data, score, created_at FROM resume_versions WHERE resume_id = ? AND id = ?")
+        .get(id, versionId) as VersionRow | undefined;
+      return row ? { id: row.id, data: normalizeResume(JSON.parse(row.data)), score: row.score, createdAt: row.created_at } : null;
+    },
+
+    remove(id: string): boolean {
+      return db.prepare("DELETE FROM resumes WHERE id = ?").run(id).changes > 0;
+    },
+  };
+}
+
+export type ResumeStore = ReturnType<typeof createResumeStore>;
+
+// Readable prefix from the resume name plus a random token, so links can't be guessed.
+const newSlug = (name: string | undefined) => {
+  const prefix = (name || "resume").toLowerCase().normalize("NFKD").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 32);
+  return `${prefix || "resume"}-${randomBytes(6).toString("base64url")}`;
+};
+
+export function createShareStore(db: Database.Database) {
+  const byResume = (resumeId: string) =>
+    db.prepare("SELECT * FROM share_links WHERE resume_id = ?").get(resumeId) as ShareRow | undefined;
+
+  return {
+    get(resumeId: string): ShareLink | null {
+      const row = byResume(resumeId);
+      return row ? toShareLink(row) : null;
+    },
+
+    // Creates the link on first use; later calls only change its settings.
+    upsert(resumeId: string, name: string | undefined, settings: { enabled: boolean; expiresAt: string | null }): ShareLink {
+      if (byResume(resumeId)) {
+        db.prepare("UPDATE share_links SET enabled = ?, expires_at = ? WHERE resume_id = ?")
+          .run(settings.enabled ? 1 : 0, settings.expiresAt, resumeId);
+      } else {
+        db.prepare("INSERT INTO share_links (slug, resume_id, enabled, expires_at, created_at) VALUES (?, ?, ?, ?, ?)")
+          .run(newSlug(name), resumeId, settings.enabled ? 1 : 0, settings.expiresAt, new Date().toISOString());
+      }
+      return toShareLink(byResume(resumeId)!);
+    },
+
+    // A new slug invalidates the old URL everywhere it was posted; the view count starts over.
+    regenerate(resumeId: string, name: string | undefined): ShareLink | null {
+      const result = db.prepare("UPDATE share_links SET slug = ?, views = 0, created_at = ? WHERE resume_id = ?")
+        .run(newSlug(name), new Date().toISOString(), resumeId);
+      return result.changes > 0 ? toShareLink(byResume(resumeId)!) : null;
+    },
+
+    /** Resolves a public slug and counts the view when the link is live. */
+    open(slug: string): { status: "ok" | "missing" | "disabled" | "expired"; resumeId?: string } {
+      const row = db.prepare("SELECT * FROM share_links WHERE slug = ?").get(slug) as ShareRow | undefined;
+      if (!row) return { status: "missing" };
+      if (!row.enabled) return { status: "disabled" };
+      if (row.expires_at && row.expires_at <= new Date().toISOString()) return { status: "expired" };
+      db.prepare("UPDATE share_links SET views = views + 1 WHERE slug = ?").run(slug);
+      return { status: "ok", resumeId: row.resume_id };
+    },
+  };
+}
+
+export type ShareStore = ReturnType<typeof createShareStore>;
+
+const SESSION_DAYS = 30;
+
+// Only a hash of each session token is stored, so a leaked database can't be used to sign in.
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export function createUserStore(db: Database.Database) {
+  return {
+    create(email: string, passwordHash: string): User {
+      const id = randomUUID();
+      const now = new Date().toISOString();
+      db.prepare("INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)")
+        .run(id, email, passwordHash, now);
+      return { id, email, createdAt: now };
+    },
+
+    get(id: string): User | null {
+      const row = db.prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+
+    findByEmail(email: string): (User & { passwordHash: string }) | null {
+      const row = db.prepare("SELECT * FROM users WHERE email = ?").get(email) as UserRow | undefined;
+      return row ? { ...toUser(row), passwordHash: row.password_hash } : null;
+    },
+
+    count(): number {
+      return (db.prepare("SELECT COUNT(*) AS count FROM users").get() as { count: number }).count;
+    },
+  };
+}
+
+export type UserStore = ReturnType<typeof createUserStore>;
+
+export function createSessionStore(db: Database.Database) {
+  return {
+    /** Starts a session and returns the token for the cookie; only its hash is kept. */
+    create(userId: string): { token: string; expiresAt: Date } {
+      const token = randomBytes(32).toString("base64url");
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+      db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now.toISOString());
+      db.prepare("INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)")
+        .run(hashToken(token), userId, now.toISOString(), expiresAt.toISOString());
+      return { token, expiresAt };
+    },
+
+    userId(token: string): string | null {
+      const row = db
+        .prepare("SELECT user_id FROM sessions WHERE token_hash = ? AND expires_at > ?")
+        .get(hashToken(token), new Date().toISOString()) as { user_id: string } | undefined;
+      return row?.user_id ?? null;
+    },
+
+    remove(token: string) {
+      db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
@@ -0,0 +1,93 @@
+import fs from "fs";
+import { Router } from "express";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import type { ResumeStore, ShareStore } from "./db";
+import { ResumePage } from "../src/resumePage";
+import { normalizeResume } from "../src/schema";
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+/**
+ * The app stylesheet the templates are styled with: Vite serves the source file
+ * directly in development, while production uses the hashed asset from the build.
+ */
+export function findStylesheet(production: boolean) {
+  if (!production) return "/src/index.css?direct";
+  try {
+    const html = fs.readFileSync("dist/index.html", "utf8");
+    return /<link[^>]+rel="stylesheet"[^>]+href="([^"]+)"/.exec(html)?.[1] ?? "";
+  } catch {
+    console.warn("dist/index.html not found; public resume pages will be unstyled. Run `npm run build` first.");
+    return "";
+  }
+}
+
+const page = (head: string, body: string, stylesheet: string) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    ${head}
+    ${stylesheet ? `<link rel="stylesheet" href="${escapeHtml(stylesheet)}" />` : ""}
+  </head>
+  <body style="background:#f1f5f9;margin:0">
+    ${body}
+  </body>
+</html>`;
+
+const unavailable = (message: string, stylesheet: string) =>
+  page(
+    `<title>Resume unavailable</title>\n    <meta name="robots" content="noindex" />`,
+    `<p style="font-family:sans-serif;color:#475569;text-align:center;padding:80px 16px">${escapeHtml(message)}</p>`,
+    stylesheet
+  );
+
+/** Serves shared resumes as server-rendered, read-only pages at /r/:slug. */
+export function createPublicResumeRouter(shares: ShareStore, resumes: ResumeStore, stylesheet: string) {
+  const router = Router();
+
+  router.get("/r/:slug", (req, res) => {
+    const { status, resumeId } = shares.open(req.params.slug);
+    const record = resumeId ? resumes.get(resumeId) : null;
+    res.setHeader("Cache-Control", "no-cache");
+
+    if (status === "expired") {
+      res.status(410).send(unavailable("This resume link has expired.", stylesheet));
+      return;
+    }
+    if (!record) {
+      res.status(404).send(unavailable("This resume link is not available.", stylesheet));
+      return;
+    }
+
+    // Always the latest saved data, so a posted link never goes stale.
+    const data = normalizeResume(record.data);
+    const summary = data.linkedinAbout || "";
+    const title = `${data.name || "Resume"} — Resume`;
+    const description = truncate(summary || [data.degree, data.college].filter(Boolean).join(" at "), 200);
+    const url = `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+
+    const head = [
+      `<title>${escapeHtml(title)}</title>`,
+      `<meta name="description" content="${escapeHtml(description)}" />`,
+      // Links are meant to be shared directly, not discovered through search engines.
+      `<meta name="robots" content="noindex" />`,
+      `<link rel="canonical" href="${escapeHtml(url)}" />`,
+      `<meta property="og:type" content="profile" />`,
+      `<meta property="og:title" content="${escapeHtml(title)}" />`,
+      `<meta property="og:description" content="${escapeHtml(description)}" />`,
+      `<meta property="og:url" content="${escapeHtml(url)}" />`,
+      `<meta name="twitter:card" content="summary" />`,
+    ].join("\n    ");
+    // Rendered at the theme's page size; fit-to-page needs a browser to measure, so spacing stays as set.
+    const body = `<main style="width:fit-content;max-width:100%;overflow-x:auto;margin:32px auto;box-shadow:0 25px 50px -12px rgba(0,0,0,.25)">${renderToString(createElement(ResumePage, { data, summary }))}</main>`;
+
+    res.send(page(head, body, stylesheet));
+  });
+
+  return router;
+}
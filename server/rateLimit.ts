@@ -0,0 +1,39 @@
+import type { Request, RequestHandler } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+  // Requests are counted per client IP unless a key is given, e.g. the signed-in user.
+  key?: (req: Request) => string;
+}
+
+/**
+ * A fixed-window, in-memory rate limiter. Counts reset when the server restarts,
+ * which is fine for a single local process.
+ */
+export function createRateLimiter({ windowMs, max, message, key = (req) => req.ip || "unknown" }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    // Drop finished windows as we go so the map can't grow without bound.
+    windows.forEach((window, id) => {
+      if (window.resetAt <= now) windows.delete(id);
+    });
+
+    const id = key(req);
+    const window = windows.get(id) ?? { count: 0, resetAt: now + windowMs };
+    window.count += 1;
+    windows.set(id, window);
+
+    res.setHeader("RateLimit-Limit", String(max));
+    res.setHeader("RateLimit-Remaining", String(Math.max(max - window.count, 0)));
+    if (window.count > max) {
+      res.setHeader("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      res.status(429).json({ error: message });
+      return;
+    }
+    next();
+  };
+}
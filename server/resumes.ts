@@ -0,0 +1,98 @@
+import { Router, type Request, type Response } from "express";
+import type { ResumeStore } from "./db";
+import { requireResumeOwner } from "./auth";
+import { parseResume } from "../src/schema";
+import type { ResumeData } from "../src/types";
+
+// Bodies are held to the same schema as the editor form, after migrating older documents.
+const readResume = (req: Request, res: Response): ResumeData | null => {
+  const { data, issues } = parseResume(req.body);
+  if (!data) {
+    res.status(400).json({ error: issues[0].message, issues });
+  }
+  return data;
+};
+
+// Expects requireUser in front; every route below that takes an id also checks ownership.
+export function createResumeRouter(store: ResumeStore) {
+  const router = Router();
+
+  router.use("/:id", requireResumeOwner(store));
+
+  router.get("/", (req, res) => {
+    res.json(store.list(req.user!.id));
+  });
+
+  router.post("/", (req, res) => {
+    const data = readResume(req, res);
+    if (!data) return;
+    const record = store.create(req.user!.id, data);
+    store.snapshot(record.id, record.data);
+    res.status(201).json(record);
+  });
+
+  router.get("/:id", (req, res) => {
+    const record = store.get(req.params.id);
+    if (!record) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    res.json(record);
+  });
+
+  router.put("/:id", (req, res) => {
+    const data = readResume(req, res);
+    if (!data) return;
+    const record = store.update(req.params.id, data);
+    if (!record) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    // Only saves from the editor are versioned; small preview tweaks (template, summary) are not.
+    if (req.query.snapshot === "true") store.snapshot(record.id, record.data);
+    res.json(record);
+  });
+
+  router.get("/:id/versions", (req, res) => {
+    if (!store.get(req.params.id)) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    res.json(store.listVersions(req.params.id));
+  });
+
+  router.get("/:id/versions/:versionId", (req, res) => {
+    const version = store.getVersion(req.params.id, Number(req.params.versionId));
+    if (!version) {
+      res.status(404).json({ error: "Version not found" });
+      return;
+    }
+    res.json(version);
+  });
+
+  // Restoring writes the old data back as a new save, so the restore itself shows up in the history.
+  router.post("/:id/versions/:versionId/restore", (req, res) => {
+    const version = store.getVersion(req.params.id, Number(req.params.versionId));
+    if (!version) {
+      res.status(404).json({ error: "Version not found" });
+      return;
+    }
+    const record = store.update(req.params.id, version.data);
+    if (!record) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    store.snapshot(record.id, record.data);
+    res.json(record);
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!store.remove(req.params.id)) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
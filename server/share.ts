@@ -0,0 +1,47 @@
+import { Router } from "express";
+import type { ResumeStore, ShareStore } from "./db";
+import { requireResumeOwner } from "./auth";
+
+// Owner-facing settings for a resume's public link, mounted alongside the resume routes.
+export function createShareRouter(shares: ShareStore, resumes: ResumeStore) {
+  const router = Router();
+
+  router.use("/:id/share", requireResumeOwner(resumes));
+
+  // null until the owner shares the resume for the first time.
+  router.get("/:id/share", (req, res) => {
+    if (!resumes.get(req.params.id)) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    res.json(shares.get(req.params.id));
+  });
+
+  router.put("/:id/share", (req, res) => {
+    const resume = resumes.get(req.params.id);
+    if (!resume) {
+      res.status(404).json({ error: "Resume not found" });
+      return;
+    }
+    const { enabled, expiresAt } = req.body ?? {};
+    const validExpiry = expiresAt === null || expiresAt === undefined || (typeof expiresAt === "string" && !Number.isNaN(Date.parse(expiresAt)));
+    if (typeof enabled !== "boolean" || !validExpiry) {
+      res.status(400).json({ error: "Request body must include enabled and an optional ISO expiresAt" });
+      return;
+    }
+    const expiry = expiresAt ? new Date(expiresAt).toISOString() : null;
+    res.json(shares.upsert(resume.id, resume.data.name, { enabled, expiresAt: expiry }));
+  });
+
+  router.post("/:id/share/regenerate", (req, res) => {
+    const resume = resumes.get(req.params.id);
+    const link = resume && shares.regenerate(resume.id, resume.data.name);
+    if (!link) {
+      res.status(404).json({ error: "This resume has no share link yet" });
+      return;
+    }
+    res.json(link);
+  });
+
+  return router;
+}
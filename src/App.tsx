@@ -1,54 +1,111 @@
-import { useState, useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, useNavigate, Link } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { createBrowserRouter, createRoutesFromElements, RouterProvider, Outlet, Route, useNavigate, useParams, useSearchParams, useLocation, useBlocker, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'motion/react';
-import { FileText, Plus, Download, Github, Linkedin, Mail, Phone, MapPin, GraduationCap, Briefcase, Award, Sparkles, ChevronRight, ArrowLeft } from 'lucide-react';
-import { useForm, useFieldArray } from 'react-hook-form';
+import { FileText, Plus, Download, GraduationCap, Briefcase, Award, Sparkles, ChevronRight, ArrowLeft, Trash2, LayoutTemplate, AlertCircle, AlertTriangle, Info, Upload, Mail, History, RotateCcw, LogOut, Eye, X } from 'lucide-react';
+import { useForm, useFieldArray, Controller, type FieldPath } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-import { GoogleGenAI } from "@google/genai";
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-// --- Types & Schemas ---
-
-const resumeSchema = z.object({
-  name: z.string().min(2, "Name is required"),
-  email: z.string().email("Invalid email"),
-  phone: z.string().min(10, "Invalid phone number"),
-  linkedin: z.string().url("Invalid LinkedIn URL").or(z.string().length(0)),
-  github: z.string().url("Invalid GitHub URL").or(z.string().length(0)),
-  location: z.string().min(2, "Location is required"),
-  college: z.string().min(2, "College name is required"),
-  degree: z.string().min(2, "Degree is required"),
-  year: z.string().min(4, "Graduation year is required"),
-  cgpa: z.string().optional(),
-  technicalSkills: z.string().min(2, "Technical skills are required"),
-  softSkills: z.string().min(2, "Soft skills are required"),
-  projects: z.array(z.object({
-    title: z.string().min(2, "Project title is required"),
-    description: z.string().min(10, "Description is required"),
-    technologies: z.string().min(2, "Technologies are required"),
-  })).min(1, "At least one project is required"),
-  activities: z.array(z.object({
-    role: z.string().min(2, "Role is required"),
-    achievements: z.string().min(5, "Achievements are required"),
-  })).min(1, "At least one activity is required"),
-});
-
-type ResumeData = z.infer<typeof resumeSchema> & { linkedinAbout?: string };
+import { cn, fileBaseName } from './utils';
+import type { BulletSection, ResumeData, ResumeSummary, SummaryOptions } from './types';
+import { resumeFormSchema, normalizeResume, newEntryId } from './schema';
+import { renderResumePdf } from './pdf';
+import { TEMPLATES, getTemplate } from './templates';
+import { TailorPanel } from './tailor';
+import { BulletRewrite } from './rewrite';
+import { SummaryStudio, DEFAULT_SUMMARY_OPTIONS } from './summary';
+import { CoverLetterPage } from './coverLetter';
+import { VersionHistory } from './history';
+import { SharePanel } from './share';
+import { ExportMenu } from './exportMenu';
+import { SkillEditor } from './skillEditor';
+import { CustomSectionFields, SectionLayoutPanel } from './sectionLayout';
+import { resolveSections } from './sections';
+import { ResumePage } from './resumePage';
+import { ThemePanel } from './themePanel';
+import { VariantPanel } from './variantPanel';
+import { applyVariant, applyVariantChanges, findVariant, masterFieldName } from './variants';
+import { ImportResumePage } from './resumeImport';
+import { AuthProvider, AuthPage, RequireAuth, useAuth } from './auth';
+import { loadDraft, saveDraft, clearDraft, type FormDraft } from './drafts';
+import { diffResumes } from './resumeDiff';
+import { calculateResumeScore, toFieldName, type Severity } from './lint';
+import { importJsonResume, type ImportIssue, type ImportResult } from './jsonResume';
+import { listResumes, getResume, createResume, updateResume, deleteResume, generateSummaries } from './api';
 
 // --- Components ---
 
 const Landing = () => {
   const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const [savedResumes, setSavedResumes] = useState<ResumeSummary[]>([]);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [importDraft, setImportDraft] = useState<ResumeData | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setSavedResumes([]);
+      return;
+    }
+    listResumes()
+      .then(setSavedResumes)
+      .catch((error) => console.error("Error loading resumes:", error));
+  }, [user]);
+
+  const removeResume = async (id: string) => {
+    try {
+      await deleteResume(id);
+      setSavedResumes((resumes) => resumes.filter((resume) => resume.id !== id));
+    } catch (error) {
+      console.error("Error deleting resume:", error);
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    setImportIssues([]);
+    setImportDraft(null);
+    let result: ImportResult;
+    try {
+      result = importJsonResume(await file.text());
+    } catch (error) {
+      console.error("Error reading resume file:", error);
+      setImportIssues([{ path: '', message: "Could not read the file." }]);
+      return;
+    }
+    if (result.issues.length > 0) {
+      setImportIssues(result.issues);
+      setImportDraft(result.data);
+      return;
+    }
+    try {
+      const record = await createResume(result.data);
+      navigate(`/preview/${record.id}`);
+    } catch (error) {
+      setImportIssues([{ path: '', message: error instanceof Error ? error.message : "Could not save the imported resume." }]);
+    }
+  };
+
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-br from-slate-950 to-indigo-950">
+    <div className="relative min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-br from-slate-950 to-indigo-950">
+      <nav className="absolute top-6 right-6 flex items-center gap-4 text-sm">
+        {user ? (
+          <>
+            <span className="text-slate-400">{user.email}</span>
+            <button onClick={() => logout().catch((error) => console.error("Error logging out:", error))} className="flex items-center text-slate-400 hover:text-white transition-colors">
+              <LogOut className="w-4 h-4 mr-1" /> Log out
+            </button>
+          </>
+        ) : user === null && (
+          <>
+            <Link to="/login" className="text-slate-400 hover:text-white transition-colors">Log in</Link>
+            <Link to="/signup" className="px-4 py-2 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-all">Sign up</Link>
+          </>
+        )}
+      </nav>
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -71,8 +128,74 @@ const Landing = () => {
           Create Resume
           <ChevronRight className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
         </button>
+        <div className="mt-4">
+          <button onClick={() => fileInput.current?.click()} className="inline-flex items-center text-sm text-slate-400 hover:text-white transition-colors">
+            <Upload className="w-4 h-4 mr-2" /> Import JSON Resume
+          </button>
+          <span className="mx-3 text-slate-700">·</span>
+          <Link to="/import" className="inline-flex items-center text-sm text-slate-400 hover:text-white transition-colors">
+            <FileText className="w-4 h-4 mr-2" /> Import from text or PDF
+          </Link>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              importFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {importIssues.length > 0 && (
+          <div className="mt-6 text-left p-4 rounded-2xl bg-red-500/10 border border-red-500/20">
+            <p className="text-sm font-bold text-red-300 mb-2">This resume needs a few fixes before it can be saved:</p>
+            <ul className="space-y-1">
+              {importIssues.map((issue, i) => (
+                <li key={i} className="text-xs text-red-200">{issue.path && <span className="font-mono">{issue.path}: </span>}{issue.message}</li>
+              ))}
+            </ul>
+            {importDraft && (
+              <button onClick={() => navigate('/form', { state: { draft: importDraft } })} className="mt-3 text-xs font-bold text-indigo-400 hover:underline">
+                Open in editor to fix
+              </button>
+            )}
+          </div>
+        )}
       </motion.div>
 
+      {savedResumes.length > 0 && (
+        <div className="mt-16 max-w-3xl w-full">
+          <h2 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-4">Your Resumes</h2>
+          <ul className="space-y-3">
+            {savedResumes.map((resume) => (
+              <li key={resume.id} className="flex items-center justify-between p-4 bg-slate-900/50 rounded-2xl border border-slate-800">
+                <div>
+                  <Link to={`/preview/${resume.id}`} className="font-bold text-white hover:text-indigo-400">{resume.name}</Link>
+                  <p className="text-xs text-slate-500">Updated {new Date(resume.updatedAt).toLocaleString()}</p>
+                  {resume.variants.length > 0 && (
+                    <div className="flex flex-wrap gap-x-3 mt-1 text-xs">
+                      {resume.variants.map((variant) => (
+                        <Link key={variant.id} to={`/preview/${resume.id}?variant=${variant.id}`} className="text-indigo-400 hover:text-indigo-300">
+                          {variant.name}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-4 text-sm">
+                  <Link to={`/form/${resume.id}`} className="text-indigo-400 hover:text-indigo-300 font-medium">Edit</Link>
+                  <button onClick={() => removeResume(resume.id)} className="text-slate-500 hover:text-red-400" aria-label={`Delete ${resume.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mt-20 grid grid-cols-1 md:grid-cols-3 gap-8 max-w-5xl w-full">
         {[
           { icon: FileText, title: "ATS-Friendly", desc: "Optimized for applicant tracking systems with a clean one-column layout." },
@@ -96,38 +219,228 @@ const Landing = () => {
   );
 };
 
-const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => void }) => {
+const AUTOSAVE_DELAY_MS = 1000;
+
+const ResumeForm = () => {
   const navigate = useNavigate();
-  const { register, control, handleSubmit, formState: { errors } } = useForm<ResumeData>({
-    resolver: zodResolver(resumeSchema),
+  const { id } = useParams();
+  const location = useLocation();
+  const draft: ResumeData | undefined = location.state?.draft;
+  // Fields the text importer was unsure about; each one stays highlighted until it is edited.
+  const [reviewFields, setReviewFields] = useState<string[]>(location.state?.review ?? []);
+  const [savedData, setSavedData] = useState<ResumeData | null>(null);
+  const [saveError, setSaveError] = useState<string>("");
+  const [searchParams] = useSearchParams();
+  const focusField = searchParams.get('focus');
+  const [loaded, setLoaded] = useState(false);
+  const [rewriting, setRewriting] = useState<{ section: BulletSection; index: number } | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string>("");
+  // Refs rather than state: both are read inside callbacks that outlive the render they were created in.
+  const pendingDraftRef = useRef<FormDraft | null>(null);
+  const leavingRef = useRef(false);
+  const { register, control, handleSubmit, reset, setFocus, trigger, watch, setValue, formState: { errors, isSubmitting, isDirty } } = useForm<ResumeData>({
+    resolver: zodResolver(resumeFormSchema),
+    // Validate as fields are left so mistakes show inline while typing, not only on submit.
+    mode: 'onTouched',
     defaultValues: {
-      projects: [{ title: '', description: '', technologies: '' }],
-      activities: [{ role: '', achievements: '' }]
+      currentStudent: true,
+      skills: [],
+      experience: [],
+      projects: [{ id: newEntryId(), title: '', description: '', technologies: '', startDate: '', endDate: '' }],
+      activities: [],
+      certifications: [],
+      honors: [],
+      sections: resolveSections()
     }
   });
 
-  const { fields: projectFields, append: appendProject, remove: removeProject } = useFieldArray({ control, name: "projects" });
-  const { fields: activityFields, append: appendActivity, remove: removeActivity } = useFieldArray({ control, name: "activities" });
+  // Projects and activities carry their own ids (variants refer to them), so field array keys go elsewhere.
+  const { fields: projectFields, append: appendProject, remove: removeProject } = useFieldArray({ control, name: "projects", keyName: "fieldKey" });
+  const { fields: activityFields, append: appendActivity, remove: removeActivity } = useFieldArray({ control, name: "activities", keyName: "fieldKey" });
+  const { fields: experienceFields, append: appendExperience, remove: removeExperience } = useFieldArray({ control, name: "experience" });
+  const { fields: certificationFields, append: appendCertification, remove: removeCertification } = useFieldArray({ control, name: "certifications" });
+  const { fields: honorFields, append: appendHonor, remove: removeHonor } = useFieldArray({ control, name: "honors" });
+
+  const offerDraft = (stored: FormDraft | null) => {
+    pendingDraftRef.current = stored;
+    setPendingDraft(stored);
+  };
+
+  useEffect(() => {
+    if (!id) return;
+    getResume(id)
+      .then((record) => {
+        setSavedData(record.data);
+        reset(record.data);
+        setLoaded(true);
+        // Only offer a draft that actually differs from what was saved.
+        const stored = loadDraft(id);
+        if (stored && diffResumes(record.data, normalizeResume(stored.values)).length > 0) offerDraft(stored);
+      })
+      .catch((error) => setSaveError(error.message));
+  }, [id]);
+
+  // Imported data that failed validation opens here with its errors already shown. Data parsed
+  // from text is reviewed first instead, and only validated when it is saved.
+  useEffect(() => {
+    if (id) return;
+    if (!draft) {
+      offerDraft(loadDraft());
+      return;
+    }
+    reset(draft);
+    if (!location.state?.review) trigger();
+    setLoaded(true);
+  }, [draft]);
+
+  // Autosave every edit, valid or not, once typing pauses.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const subscription = watch((values, { name }) => {
+      // Resets report no field name and are not edits; while a draft is on offer, keep it intact.
+      if (!name || pendingDraftRef.current) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        saveDraft(id, values as ResumeData);
+        setDraftSavedAt(new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+      }, AUTOSAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [id]);
+
+  const restoreDraft = () => {
+    // Keep the saved values as the baseline so the restored form counts as unsaved.
+    reset(normalizeResume(pendingDraft.values), { keepDefaultValues: true });
+    setLoaded(true);
+    offerDraft(null);
+  };
+
+  const discardDraft = () => {
+    clearDraft(id);
+    offerDraft(null);
+  };
+
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    isDirty && !leavingRef.current && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  const registerField = (name: FieldPath<ResumeData>) => {
+    const registration = register(name);
+    if (!reviewFields.includes(name)) return registration;
+    return {
+      ...registration,
+      'data-review': true,
+      onChange: (event: { target: unknown; type?: unknown }) => {
+        setReviewFields((fields) => fields.filter((field) => field !== name));
+        return registration.onChange(event);
+      },
+    };
+  };
+
+  const focusFormField = (field: string) => {
+    // Individual experience bullets share one textarea, so focus the list as a whole.
+    const name = field.replace(/^(experience\.\d+\.bullets)\.\d+$/, '$1');
+    try {
+      setFocus(name as Parameters<typeof setFocus>[0]);
+    } catch {
+      document.getElementsByName(name)[0]?.focus();
+    }
+  };
+
+  // Findings in the preview link here with ?focus=<field>; wait for the loaded entries to render before focusing.
+  useEffect(() => {
+    if (!loaded || !focusField) return;
+    const timer = setTimeout(() => focusFormField(focusField), 0);
+    return () => clearTimeout(timer);
+  }, [loaded, focusField]);
+
+  // The live preview renders whatever has been typed so far, valid or not.
+  const previewData = normalizeResume({ ...savedData, ...watch() });
 
-  const onSubmit = (data: ResumeData) => {
-    setResumeData(data);
-    navigate('/preview');
+  const isRewriting = (section: BulletSection, index: number) => rewriting?.section === section && rewriting.index === index;
+
+  const acceptRewrite = (text: string) => {
+    const field = rewriting.section === 'projects' ? `projects.${rewriting.index}.description` as const : `activities.${rewriting.index}.achievements` as const;
+    setValue(field, text, { shouldDirty: true, shouldValidate: true });
+    setRewriting(null);
+  };
+
+  const improveButton = (section: BulletSection, index: number, text: string) => (
+    <button
+      type="button"
+      onClick={() => setRewriting({ section, index })}
+      disabled={!text?.trim() || !!rewriting}
+      className="text-xs font-bold text-indigo-400 hover:underline flex items-center disabled:opacity-50 disabled:no-underline"
+    >
+      <Sparkles className="w-3 h-3 mr-1" /> Improve
+    </button>
+  );
+
+  const onSubmit = async (data: ResumeData) => {
+    setSaveError("");
+    try {
+      const resume = { ...savedData, ...data };
+      const record = id ? await updateResume(id, resume, { snapshot: true }) : await createResume(resume);
+      clearDraft(id);
+      leavingRef.current = true;
+      navigate(`/preview/${record.id}`);
+    } catch (error) {
+      console.error("Error saving resume:", error);
+      setSaveError(error instanceof Error ? error.message : "Could not save resume");
+    }
   };
 
   return (
     <div className="min-h-screen bg-slate-950 py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-4xl xl:max-w-[1400px] mx-auto">
         <button onClick={() => navigate('/')} className="mb-8 flex items-center text-slate-400 hover:text-white transition-colors">
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to Home
         </button>
 
+        <div className="xl:grid xl:grid-cols-[minmax(0,1fr)_500px] xl:gap-8 items-start">
         <div className="bg-slate-900 shadow-2xl rounded-3xl overflow-hidden border border-slate-800">
           <div className="bg-indigo-600 px-8 py-10 text-white">
             <h2 className="text-3xl font-bold">Resume Details</h2>
             <p className="text-indigo-100 mt-2">Fill in your information to generate your professional resume.</p>
           </div>
 
+          {pendingDraft && (
+            <div className="mx-8 mt-8 p-4 rounded-2xl border border-yellow-500/30 bg-yellow-500/10 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-yellow-200 flex items-center">
+                <RotateCcw className="w-4 h-4 mr-2 shrink-0" />
+                Restore the unsaved draft from {new Date(pendingDraft.savedAt).toLocaleString()}?
+              </p>
+              <div className="flex gap-3">
+                <button type="button" onClick={restoreDraft} className="px-3 py-1 rounded-lg bg-yellow-500/20 text-yellow-100 text-sm font-bold hover:bg-yellow-500/30">Restore</button>
+                <button type="button" onClick={discardDraft} className="px-3 py-1 text-sm text-slate-400 hover:text-white">Discard</button>
+              </div>
+            </div>
+          )}
+
+          {reviewFields.length > 0 && (
+            <div className="mx-8 mt-8 p-4 rounded-2xl border border-yellow-500/30 bg-yellow-500/10">
+              <p className="text-sm text-yellow-200 flex items-center">
+                <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+                Imported from text — review the {reviewFields.length} highlighted {reviewFields.length === 1 ? "field" : "fields"} before saving.
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="p-8 space-y-10">
             {/* Personal Details */}
             <section>
@@ -138,32 +451,32 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">Full Name</label>
-                  <input {...register('name')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="John Doe" />
+                  <input {...registerField('name')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="John Doe" />
                   {errors.name && <p className="text-red-400 text-xs mt-1">{errors.name.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">Email Address</label>
-                  <input {...register('email')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="john@example.com" />
+                  <input {...registerField('email')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="john@example.com" />
                   {errors.email && <p className="text-red-400 text-xs mt-1">{errors.email.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">Phone Number</label>
-                  <input {...register('phone')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="+1 234 567 890" />
+                  <input {...registerField('phone')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="+1 234 567 890" />
                   {errors.phone && <p className="text-red-400 text-xs mt-1">{errors.phone.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">Location</label>
-                  <input {...register('location')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="City, Country" />
+                  <input {...registerField('location')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="City, Country" />
                   {errors.location && <p className="text-red-400 text-xs mt-1">{errors.location.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">LinkedIn URL</label>
-                  <input {...register('linkedin')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="https://linkedin.com/in/johndoe" />
+                  <input {...registerField('linkedin')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="https://linkedin.com/in/johndoe" />
                   {errors.linkedin && <p className="text-red-400 text-xs mt-1">{errors.linkedin.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">GitHub URL</label>
-                  <input {...register('github')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="https://github.com/johndoe" />
+                  <input {...registerField('github')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="https://github.com/johndoe" />
                   {errors.github && <p className="text-red-400 text-xs mt-1">{errors.github.message}</p>}
                 </div>
               </div>
@@ -178,25 +491,32 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-slate-400 mb-1">College/University</label>
-                  <input {...register('college')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Stanford University" />
+                  <input {...registerField('college')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Stanford University" />
                   {errors.college && <p className="text-red-400 text-xs mt-1">{errors.college.message}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-400 mb-1">Degree</label>
-                  <input {...register('degree')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="B.S. in Computer Science" />
+                  <input {...registerField('degree')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="B.S. in Computer Science" />
                   {errors.degree && <p className="text-red-400 text-xs mt-1">{errors.degree.message}</p>}
                 </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-slate-400 mb-1">Grad Year</label>
-                    <input {...register('year')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="2027" />
-                    {errors.year && <p className="text-red-400 text-xs mt-1">{errors.year.message}</p>}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-slate-400 mb-1">CGPA/GPA</label>
-                    <input {...register('cgpa')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="3.8/4.0" />
-                  </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-1">CGPA/GPA</label>
+                  <input {...registerField('cgpa')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="3.8/4.0" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-1">Start Date</label>
+                  <input type="month" {...registerField('educationStart')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                  {errors.educationStart && <p className="text-red-400 text-xs mt-1">{errors.educationStart.message}</p>}
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-1">Graduation (expected)</label>
+                  <input type="month" {...registerField('educationEnd')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                  {errors.educationEnd && <p className="text-red-400 text-xs mt-1">{errors.educationEnd.message}</p>}
+                </div>
+                <label className="md:col-span-2 flex items-center text-sm text-slate-400">
+                  <input type="checkbox" {...registerField('currentStudent')} className="mr-2 accent-indigo-500" />
+                  I'm currently studying here
+                </label>
               </div>
             </section>
 
@@ -206,17 +526,94 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
                 <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">3</span>
                 Skills
               </h3>
-              <div className="space-y-6">
-                <div>
-                  <label className="block text-sm font-medium text-slate-400 mb-1">Technical Skills (comma separated)</label>
-                  <textarea {...register('technicalSkills')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="React, Node.js, Python, TypeScript, SQL..." />
-                  {errors.technicalSkills && <p className="text-red-400 text-xs mt-1">{errors.technicalSkills.message}</p>}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-slate-400 mb-1">Soft Skills (comma separated)</label>
-                  <textarea {...register('softSkills')} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="Communication, Leadership, Problem Solving..." />
-                  {errors.softSkills && <p className="text-red-400 text-xs mt-1">{errors.softSkills.message}</p>}
-                </div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Technical and soft skills</label>
+              <Controller
+                control={control}
+                name="skills"
+                render={({ field }) => (
+                  <SkillEditor
+                    value={field.value}
+                    onChange={(skills) => {
+                      setReviewFields((fields) => fields.filter((name) => name !== 'skills'));
+                      field.onChange(skills);
+                    }}
+                    onBlur={field.onBlur}
+                    inputRef={field.ref}
+                    name={field.name}
+                    review={reviewFields.includes('skills')}
+                  />
+                )}
+              />
+              <p className="text-xs text-slate-500 mt-1">Click a skill to change its category or add a proficiency level.</p>
+              {errors.skills && <p className="text-red-400 text-xs mt-1">{errors.skills.message || errors.skills.root?.message}</p>}
+            </section>
+
+            {/* Experience */}
+            <section>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-white flex items-center">
+                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">4</span>
+                  Work Experience
+                </h3>
+                <button type="button" onClick={() => appendExperience({ company: '', title: '', location: '', startDate: '', endDate: '', bullets: [] })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+                  <Plus className="w-4 h-4 mr-1" /> Add Experience
+                </button>
+              </div>
+              {experienceFields.length === 0 && (
+                <p className="text-sm text-slate-500">Internships, part-time jobs and freelance work all count. Optional for first-year students.</p>
+              )}
+              <div className="space-y-8">
+                {experienceFields.map((field, index) => (
+                  <div key={field.id} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
+                    <button type="button" onClick={() => removeExperience(index)} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+                      Remove
+                    </button>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Job Title</label>
+                        <input {...registerField(`experience.${index}.title`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Software Engineering Intern" />
+                        {errors.experience?.[index]?.title && <p className="text-red-400 text-xs mt-1">{errors.experience[index].title.message}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Company</label>
+                        <input {...registerField(`experience.${index}.company`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Acme Corp" />
+                        {errors.experience?.[index]?.company && <p className="text-red-400 text-xs mt-1">{errors.experience[index].company.message}</p>}
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Location</label>
+                        <input {...registerField(`experience.${index}.location`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Remote" />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Start Date</label>
+                        <input type="month" {...registerField(`experience.${index}.startDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                        {errors.experience?.[index]?.startDate && <p className="text-red-400 text-xs mt-1">{errors.experience[index].startDate.message}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">End Date (leave empty if current)</label>
+                        <input type="month" {...registerField(`experience.${index}.endDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                        {errors.experience?.[index]?.endDate && <p className="text-red-400 text-xs mt-1">{errors.experience[index].endDate.message}</p>}
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Highlights (one bullet per line)</label>
+                        <Controller
+                          control={control}
+                          name={`experience.${index}.bullets`}
+                          render={({ field }) => (
+                            <textarea
+                              value={(field.value || []).join('\n')}
+                              onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                              onBlur={field.onBlur}
+                              ref={field.ref}
+                              name={field.name}
+                              className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-28"
+                              placeholder={"Built an internal dashboard used by 40 engineers\nReduced API latency by 30% by adding caching"}
+                            />
+                          )}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
               </div>
             </section>
 
@@ -224,33 +621,51 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
             <section>
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-xl font-bold text-white flex items-center">
-                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">4</span>
+                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">5</span>
                   Projects
                 </h3>
-                <button type="button" onClick={() => appendProject({ title: '', description: '', technologies: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+                <button type="button" onClick={() => appendProject({ id: newEntryId(), title: '', description: '', technologies: '', startDate: '', endDate: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
                   <Plus className="w-4 h-4 mr-1" /> Add Project
                 </button>
               </div>
               <div className="space-y-8">
                 {projectFields.map((field, index) => (
-                  <div key={field.id} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
-                    {index > 0 && (
-                      <button type="button" onClick={() => removeProject(index)} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
-                        Remove
-                      </button>
-                    )}
+                  <div key={field.fieldKey} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
+                    <button type="button" onClick={() => { setRewriting(null); removeProject(index); }} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+                      Remove
+                    </button>
                     <div className="grid grid-cols-1 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-slate-400 mb-1">Project Title</label>
-                        <input {...register(`projects.${index}.title`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="E-commerce App" />
+                        <input {...registerField(`projects.${index}.title`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="E-commerce App" />
+                        {errors.projects?.[index]?.title && <p className="text-red-400 text-xs mt-1">{errors.projects[index].title.message}</p>}
                       </div>
                       <div>
                         <label className="block text-sm font-medium text-slate-400 mb-1">Technologies Used</label>
-                        <input {...register(`projects.${index}.technologies`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="React, Firebase, Stripe" />
+                        <input {...registerField(`projects.${index}.technologies`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="React, Firebase, Stripe" />
+                        {errors.projects?.[index]?.technologies && <p className="text-red-400 text-xs mt-1">{errors.projects[index].technologies.message}</p>}
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">Start Date</label>
+                          <input type="month" {...registerField(`projects.${index}.startDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">End Date (empty if ongoing)</label>
+                          <input type="month" {...registerField(`projects.${index}.endDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                          {errors.projects?.[index]?.endDate && <p className="text-red-400 text-xs mt-1">{errors.projects[index].endDate.message}</p>}
+                        </div>
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-slate-400 mb-1">Description</label>
-                        <textarea {...register(`projects.${index}.description`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="Developed a full-stack e-commerce platform with user authentication and payment integration..." />
+                        <div className="flex justify-between items-center mb-1">
+                          <label className="block text-sm font-medium text-slate-400">Description</label>
+                          {improveButton('projects', index, previewData.projects[index]?.description)}
+                        </div>
+                        <textarea {...registerField(`projects.${index}.description`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="Developed a full-stack e-commerce platform with user authentication and payment integration..." />
+                        {errors.projects?.[index]?.description && <p className="text-red-400 text-xs mt-1">{errors.projects[index].description.message}</p>}
+                        {isRewriting('projects', index) && (
+                          <BulletRewrite data={previewData} section="projects" index={index} onAccept={acceptRewrite} onClose={() => setRewriting(null)} />
+                        )}
                       </div>
                     </div>
                   </div>
@@ -262,29 +677,89 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
             <section>
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-xl font-bold text-white flex items-center">
-                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">5</span>
+                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">6</span>
                   Extracurricular Activities
                 </h3>
-                <button type="button" onClick={() => appendActivity({ role: '', achievements: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+                <button type="button" onClick={() => appendActivity({ id: newEntryId(), role: '', achievements: '', startDate: '', endDate: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
                   <Plus className="w-4 h-4 mr-1" /> Add Activity
                 </button>
               </div>
               <div className="space-y-8">
                 {activityFields.map((field, index) => (
-                  <div key={field.id} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
-                    {index > 0 && (
-                      <button type="button" onClick={() => removeActivity(index)} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
-                        Remove
-                      </button>
-                    )}
+                  <div key={field.fieldKey} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
+                    <button type="button" onClick={() => { setRewriting(null); removeActivity(index); }} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+                      Remove
+                    </button>
                     <div className="grid grid-cols-1 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-slate-400 mb-1">Club / Role</label>
-                        <input {...register(`activities.${index}.role`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="President, Coding Club" />
+                        <input {...registerField(`activities.${index}.role`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="President, Coding Club" />
+                        {errors.activities?.[index]?.role && <p className="text-red-400 text-xs mt-1">{errors.activities[index].role.message}</p>}
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">Start Date</label>
+                          <input type="month" {...registerField(`activities.${index}.startDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">End Date (empty if ongoing)</label>
+                          <input type="month" {...registerField(`activities.${index}.endDate`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                          {errors.activities?.[index]?.endDate && <p className="text-red-400 text-xs mt-1">{errors.activities[index].endDate.message}</p>}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="flex justify-between items-center mb-1">
+                          <label className="block text-sm font-medium text-slate-400">Achievements / Responsibilities</label>
+                          {improveButton('activities', index, previewData.activities[index]?.achievements)}
+                        </div>
+                        <textarea {...registerField(`activities.${index}.achievements`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="Organized weekly workshops for 50+ students on web development..." />
+                        {errors.activities?.[index]?.achievements && <p className="text-red-400 text-xs mt-1">{errors.activities[index].achievements.message}</p>}
+                        {isRewriting('activities', index) && (
+                          <BulletRewrite data={previewData} section="activities" index={index} onAccept={acceptRewrite} onClose={() => setRewriting(null)} />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Certifications */}
+            <section>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-white flex items-center">
+                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">7</span>
+                  Certifications
+                </h3>
+                <button type="button" onClick={() => appendCertification({ name: '', issuer: '', date: '', credentialUrl: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+                  <Plus className="w-4 h-4 mr-1" /> Add Certification
+                </button>
+              </div>
+              <div className="space-y-8">
+                {certificationFields.map((field, index) => (
+                  <div key={field.id} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
+                    <button type="button" onClick={() => removeCertification(index)} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+                      Remove
+                    </button>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Certification</label>
+                        <input {...registerField(`certifications.${index}.name`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="AWS Certified Cloud Practitioner" />
+                        {errors.certifications?.[index]?.name && <p className="text-red-400 text-xs mt-1">{errors.certifications[index].name.message}</p>}
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-slate-400 mb-1">Achievements / Responsibilities</label>
-                        <textarea {...register(`activities.${index}.achievements`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-24" placeholder="Organized weekly workshops for 50+ students on web development..." />
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Issuer</label>
+                        <input {...registerField(`certifications.${index}.issuer`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Amazon Web Services" />
+                        {errors.certifications?.[index]?.issuer && <p className="text-red-400 text-xs mt-1">{errors.certifications[index].issuer.message}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Date Earned</label>
+                        <input type="month" {...registerField(`certifications.${index}.date`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Credential URL</label>
+                        <input {...registerField(`certifications.${index}.credentialUrl`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="https://www.credly.com/badges/..." />
+                        {errors.certifications?.[index]?.credentialUrl && <p className="text-red-400 text-xs mt-1">{errors.certifications[index].credentialUrl.message}</p>}
                       </div>
                     </div>
                   </div>
@@ -292,88 +767,188 @@ const ResumeForm = ({ setResumeData }: { setResumeData: (data: ResumeData) => vo
               </div>
             </section>
 
+            {/* Honors */}
+            <section>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-white flex items-center">
+                  <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">8</span>
+                  Honors & Awards
+                </h3>
+                <button type="button" onClick={() => appendHonor({ title: '', issuer: '', date: '', description: '' })} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+                  <Plus className="w-4 h-4 mr-1" /> Add Award
+                </button>
+              </div>
+              <div className="space-y-8">
+                {honorFields.map((field, index) => (
+                  <div key={field.id} className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative">
+                    <button type="button" onClick={() => removeHonor(index)} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+                      Remove
+                    </button>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Award</label>
+                        <input {...registerField(`honors.${index}.title`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Dean's List" />
+                        {errors.honors?.[index]?.title && <p className="text-red-400 text-xs mt-1">{errors.honors[index].title.message}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Awarded By</label>
+                        <input {...registerField(`honors.${index}.issuer`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Stanford University" />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Date</label>
+                        <input type="month" {...registerField(`honors.${index}.date`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1">Details</label>
+                        <input {...registerField(`honors.${index}.description`)} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Top 5% of the class" />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <CustomSectionFields control={control} errors={errors} registerField={registerField} number={9} />
+
             <div className="pt-6">
-              <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-500/20 flex items-center justify-center">
-                Generate Preview
+              {saveError && <p className="text-red-400 text-sm mb-4 text-center">{saveError}</p>}
+              {draftSavedAt && <p className="text-slate-500 text-xs mb-4 text-center">Draft autosaved on this device at {draftSavedAt}</p>}
+              <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-500/20 flex items-center justify-center disabled:opacity-50">
+                {isSubmitting ? "Saving..." : "Save & Preview"}
                 <ChevronRight className="ml-2 w-5 h-5" />
               </button>
             </div>
           </form>
         </div>
+
+        <LivePreview data={previewData} onFocusField={(path) => focusFormField(toFieldName(path))} />
+        </div>
       </div>
+
+      {blocker.state === 'blocked' && (
+        <div className="fixed inset-0 z-50 bg-slate-950/80 flex items-center justify-center p-4">
+          <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 max-w-sm w-full space-y-4">
+            <h3 className="text-lg font-bold text-white">Leave without saving?</h3>
+            <p className="text-sm text-slate-400">Your changes have not been saved to this resume. A draft stays on this device and will be offered next time you open the form.</p>
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => blocker.reset()} className="px-4 py-2 text-sm text-slate-300 hover:text-white">Keep editing</button>
+              <button type="button" onClick={() => blocker.proceed()} className="px-4 py-2 rounded-xl bg-red-500/20 text-red-300 text-sm font-bold hover:bg-red-500/30">Leave</button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-const ResumePreview = ({ data }: { data: ResumeData | null }) => {
-  const navigate = useNavigate();
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [aiSummary, setAiSummary] = useState<string>("");
-  const [loadingAi, setLoadingAi] = useState(false);
+const SEVERITY_ICONS: Record<Severity, typeof Info> = { error: AlertCircle, warning: AlertTriangle, info: Info };
+const SEVERITY_COLORS: Record<Severity, string> = { error: "text-red-400", warning: "text-yellow-400", info: "text-indigo-400" };
 
-  const calculateResumeScore = (data: ResumeData, summary: string) => {
-    let score = 0;
-    const feedback: string[] = [];
+// Pages are laid out at full size and scaled down to fit beside the form.
+const PREVIEW_ZOOM = 0.58;
 
-    // Personal Details (10 points)
-    if (data.name && data.email && data.phone) {
-      score += 10;
-    } else {
-      feedback.push("Complete your personal contact information.");
-    }
-
-    // Education (15 points)
-    if (data.college && data.degree) {
-      score += 15;
-    } else {
-      feedback.push("Add your college and degree details.");
-    }
+// Beside the form on wide screens; below that, a button opens it over the form.
+const LivePreview = ({ data, onFocusField }: { data: ReturnType<typeof normalizeResume>; onFocusField: (path: string) => void }) => {
+  const [pageCount, setPageCount] = useState<number>();
+  const [open, setOpen] = useState(false);
+  const { score, findings } = calculateResumeScore(data, data.linkedinAbout || "", { pageCount });
 
-    // Skills (20 points)
-    const skillsCount = data.technicalSkills.split(',').filter(s => s.trim().length > 0).length;
-    if (skillsCount >= 8) {
-      score += 20;
-    } else if (skillsCount >= 5) {
-      score += 10;
-      feedback.push("Try adding at least 8 technical skills for better visibility.");
-    } else if (skillsCount >= 3) {
-      score += 5;
-      feedback.push("Your skills section is a bit thin. Aim for 5-8 key skills.");
-    } else {
-      feedback.push("Add more technical skills to showcase your expertise.");
-    }
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="xl:hidden fixed bottom-6 right-6 z-40 px-4 py-3 rounded-full bg-indigo-600 text-white text-sm font-bold shadow-lg shadow-indigo-500/20 flex items-center"
+      >
+        {open ? <X className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+        {open ? "Back to form" : `Preview · ${score}/100`}
+      </button>
+      <aside className={cn(
+        "space-y-4 xl:sticky xl:top-8",
+        open ? "max-xl:fixed max-xl:inset-0 max-xl:z-30 max-xl:overflow-y-auto max-xl:bg-slate-950/95 max-xl:p-4 max-xl:pb-24" : "max-xl:hidden"
+      )}>
+        <div className="bg-slate-900 p-4 rounded-3xl border border-slate-800">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-bold text-white">Live Preview</h3>
+            <span className={cn("text-lg font-black",
+              score < 50 ? "text-red-400" : score < 75 ? "text-yellow-400" : "text-green-400"
+            )}>
+              {score}/100
+            </span>
+          </div>
+          {findings.length > 0 && (
+            <ul className="mt-2 space-y-1 max-h-24 overflow-y-auto">
+              {findings.map((finding, i) => {
+                const Icon = SEVERITY_ICONS[finding.severity];
+                return (
+                  <li key={i}>
+                    <button
+                      type="button"
+                      disabled={!finding.path}
+                      onClick={() => {
+                        setOpen(false);
+                        onFocusField(finding.path!);
+                      }}
+                      className="w-full text-left text-xs text-slate-400 flex items-start enabled:hover:text-white transition-colors"
+                    >
+                      <Icon className={cn("w-3 h-3 mr-2 mt-0.5 shrink-0", SEVERITY_COLORS[finding.severity])} />
+                      {finding.message}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+        <div className="overflow-auto rounded-sm shadow-2xl" style={{ maxHeight: 'calc(100vh - 14rem)' }}>
+          <ResumePage data={data} summary={data.linkedinAbout || ""} zoom={open ? "fit" : PREVIEW_ZOOM} onPaginate={setPageCount} />
+        </div>
+      </aside>
+    </>
+  );
+};
 
-    // Projects (25 points)
-    if (data.projects.length > 0) {
-      score += 10;
-      const hasLongDesc = data.projects.some(p => p.description.length > 40);
-      if (hasLongDesc) {
-        score += 15;
-      } else {
-        feedback.push("Expand your project descriptions to be more detailed (aim for 40+ characters).");
-      }
-    } else {
-      feedback.push("Add at least one project to demonstrate practical experience.");
-    }
+const MAX_SUMMARY_HISTORY = 10;
 
-    // Activities (10 points)
-    if (data.activities.length > 0) {
-      score += 10;
-    } else {
-      feedback.push("Include extracurricular activities or club roles.");
-    }
+const ResumePreview = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const variantId = searchParams.get('variant');
+  const [data, setData] = useState<ResumeData | null>(null);
+  const [loadingResume, setLoadingResume] = useState(true);
+  const dataRef = useRef<ResumeData | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [aiSummary, setAiSummary] = useState<string>("");
+  const [loadingAi, setLoadingAi] = useState(false);
+  const [pageCount, setPageCount] = useState<number>();
+  const [saveError, setSaveError] = useState("");
 
-    // LinkedIn About (20 points)
-    if (summary && !summary.includes("(Note: Gemini API key is missing")) {
-      score += 20;
-    } else {
-      feedback.push("Generate an AI LinkedIn summary to boost your profile score.");
-    }
+  useEffect(() => {
+    if (!id) return;
+    setLoadingResume(true);
+    getResume(id)
+      .then((record) => {
+        dataRef.current = record.data;
+        setData(record.data);
+        setAiSummary(record.data.linkedinAbout || "");
+        if (!record.data.linkedinAbout) generateSummary(DEFAULT_SUMMARY_OPTIONS, true);
+      })
+      .catch((error) => {
+        console.error("Error loading resume:", error);
+        setData(null);
+      })
+      .finally(() => setLoadingResume(false));
+  }, [id]);
 
-    return { score, feedback };
-  };
+  // The resume as printed: the master, or the open variant's selection of it.
+  const variant = data && findVariant(data, variantId);
+  const view = data && variant ? applyVariant(data, variant) : data;
 
-  const { score, feedback } = calculateResumeScore(data, aiSummary);
+  // Each variant prints its own summary, or the master's when it has none.
+  useEffect(() => {
+    if (view) setAiSummary(view.linkedinAbout || "");
+  }, [variantId, view?.linkedinAbout]);
 
   const getScoreColor = (s: number) => {
     if (s < 50) return "bg-red-500";
@@ -388,61 +963,56 @@ const ResumePreview = ({ data }: { data: ResumeData | null }) => {
     return "Keep going! Building a strong resume takes time and effort.";
   };
 
-  useEffect(() => {
-    if (data && !aiSummary) {
-      generateSummary();
+  // Read from a ref so concurrent saves (summary, template) never overwrite each other with stale data.
+  // While a variant is open, its own settings go to the variant and entry edits to the master.
+  const saveChanges = async (changes: Partial<ResumeData>, target = variantId) => {
+    if (!id || !dataRef.current) return;
+    const next = target ? applyVariantChanges(dataRef.current, target, changes) : { ...dataRef.current, ...changes };
+    dataRef.current = next;
+    setData(next);
+    try {
+      await updateResume(id, next);
+      setSaveError("");
+    } catch (error) {
+      console.error("Error saving resume:", error);
+      setSaveError(error instanceof Error ? error.message : "Could not save resume");
     }
-  }, [data]);
+  };
+
+  const saveSummary = async (summary: string) => {
+    setAiSummary(summary);
+    await saveChanges({ linkedinAbout: summary });
+  };
 
-  const generateSummary = async () => {
-    if (!data) return;
+  // New generations are kept in the resume's history; pinFirst also adopts the first variant as the summary.
+  const generateSummary = async (options: SummaryOptions, pinFirst = false) => {
+    const master = dataRef.current;
+    if (!master) return;
+    // Summarize what the open variant prints, not every entry on the master.
+    const open = findVariant(master, variantId);
+    const source = open ? applyVariant(master, open) : master;
     setLoadingAi(true);
     try {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey || apiKey === "MY_GEMINI_API_KEY" || apiKey === "undefined") {
-        setAiSummary("Passionate student eager to contribute to innovative projects. (Note: Gemini API key is missing or invalid in environment secrets)");
-        setLoadingAi(false);
-        return;
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Generate a professional, engaging LinkedIn "About" section for a first-year college student with the following details:
-        Name: ${data.name}
-        College: ${data.college}
-        Degree: ${data.degree}
-        Technical Skills: ${data.technicalSkills}
-        Soft Skills: ${data.softSkills}
-        Projects: ${JSON.stringify(data.projects)}
-        Activities: ${JSON.stringify(data.activities)}
-        
-        Keep it professional, concise (under 150 words), and ATS-friendly. Focus on potential and enthusiasm.`,
-      });
-
-      setAiSummary(response.text || "Passionate student eager to contribute to innovative projects.");
+      const { summaries } = await generateSummaries(source, options);
+      const generation = { createdAt: new Date().toISOString(), options, variants: summaries };
+      const summaryHistory = [generation, ...(dataRef.current.summaryHistory || [])].slice(0, MAX_SUMMARY_HISTORY);
+      if (pinFirst) setAiSummary(summaries[0]);
+      await saveChanges(pinFirst ? { summaryHistory, linkedinAbout: summaries[0] } : { summaryHistory });
     } catch (error) {
       console.error("Error generating summary:", error);
-      setAiSummary("Passionate student eager to contribute to innovative projects.");
+      if (pinFirst) setAiSummary("Passionate student eager to contribute to innovative projects.");
     } finally {
       setLoadingAi(false);
     }
   };
 
   const downloadPDF = async () => {
-    const element = document.getElementById('resume-content');
-    if (!element) return;
+    if (!view) return;
 
     setIsGenerating(true);
     try {
-      const canvas = await html2canvas(element, { scale: 2 });
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
-      
-      pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save(`${data?.name.replace(/\s+/g, '_')}_Resume.pdf`);
+      const pdf = renderResumePdf(view, aiSummary, getTemplate(view.template).id);
+      pdf.save(`${fileBaseName(view.name, variant?.name)}.pdf`);
     } catch (error) {
       console.error("PDF Generation Error:", error);
     } finally {
@@ -450,18 +1020,29 @@ const ResumePreview = ({ data }: { data: ResumeData | null }) => {
     }
   };
 
-  if (!data) return <div className="p-20 text-center text-slate-400">No data provided. <Link to="/form" className="text-indigo-400">Go back</Link></div>;
+  if (loadingResume) return <div className="p-20 text-center text-slate-400">Loading resume...</div>;
+  if (!data || !view) return <div className="p-20 text-center text-slate-400">No data provided. <Link to="/form" className="text-indigo-400">Go back</Link></div>;
+
+  const { score, findings } = calculateResumeScore(view, aiSummary, { pageCount });
 
   return (
     <div className="min-h-screen bg-slate-950 py-12 px-4">
       <div className="max-w-5xl mx-auto flex flex-col md:flex-row gap-8">
         {/* Controls */}
         <div className="md:w-1/3 space-y-6">
-          <button onClick={() => navigate('/form')} className="flex items-center text-slate-400 hover:text-white transition-colors">
+          <button onClick={() => navigate(`/form/${id}`)} className="flex items-center text-slate-400 hover:text-white transition-colors">
             <ArrowLeft className="w-4 h-4 mr-2" />
             Edit Details
           </button>
 
+          {saveError && (
+            <div role="alert" className="p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+              <p className="font-bold flex items-center"><AlertCircle className="w-4 h-4 mr-2" /> Your latest change wasn't saved</p>
+              <p className="text-xs text-red-200 mt-1">{saveError}</p>
+              <p className="text-xs text-red-200/70 mt-1">It will be lost when you leave this page.</p>
+            </div>
+          )}
+
           {/* Resume Score Section */}
           <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
             <div className="flex justify-between items-end mb-2">
@@ -486,21 +1067,64 @@ const ResumePreview = ({ data }: { data: ResumeData | null }) => {
               "{getMotivationalTip(score)}"
             </p>
 
-            {feedback.length > 0 && (
+            {findings.length > 0 && (
               <div className="space-y-2">
                 <p className="text-xs font-bold uppercase tracking-wider text-slate-500">Improvement Suggestions:</p>
                 <ul className="space-y-1">
-                  {feedback.map((item, i) => (
-                    <li key={i} className="text-xs text-slate-400 flex items-start">
-                      <span className="mr-2 text-indigo-400">•</span>
-                      {item}
-                    </li>
-                  ))}
+                  {findings.map((finding, i) => {
+                    const Icon = SEVERITY_ICONS[finding.severity];
+                    return (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          disabled={!finding.path}
+                          onClick={() => navigate(`/form/${id}?focus=${encodeURIComponent(masterFieldName(data, view, toFieldName(finding.path!)))}`)}
+                          className="w-full text-left text-xs text-slate-400 flex items-start enabled:hover:text-white transition-colors"
+                        >
+                          <Icon className={cn("w-3 h-3 mr-2 mt-0.5 shrink-0", SEVERITY_COLORS[finding.severity])} />
+                          {finding.message}
+                        </button>
+                      </li>
+                    );
+                  })}
                 </ul>
               </div>
             )}
           </div>
           
+          <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
+            <h3 className="text-xl font-bold mb-4 text-white flex items-center">
+              <LayoutTemplate className="w-5 h-5 mr-2 text-indigo-400" /> Template
+            </h3>
+            <div className="space-y-2">
+              {TEMPLATES.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => saveChanges({ template: template.id })}
+                  className={cn(
+                    "w-full text-left px-4 py-3 rounded-xl border transition-all",
+                    getTemplate(view.template).id === template.id
+                      ? "border-indigo-500 bg-indigo-500/10 text-white"
+                      : "border-slate-800 text-slate-400 hover:border-slate-700 hover:text-white"
+                  )}
+                >
+                  <div className="text-sm font-bold">{template.name}</div>
+                  <div className="text-xs text-slate-500">{template.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <ThemePanel data={view} onChange={(theme) => saveChanges({ theme })} />
+
+          <VariantPanel resumeId={id} master={data} activeId={variant?.id ?? null} onChange={(variants) => saveChanges({ variants }, null)} />
+
+          <SectionLayoutPanel resumeId={id} sections={view.sections} formSections={data.sections} onChange={(sections) => saveChanges({ sections })} />
+
+          <TailorPanel data={view} onApply={saveChanges} />
+
+          <SharePanel resumeId={id} />
+
           <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
             <h3 className="text-xl font-bold mb-4 text-white">Actions</h3>
             <button 
@@ -510,106 +1134,36 @@ const ResumePreview = ({ data }: { data: ResumeData | null }) => {
             >
               {isGenerating ? "Generating..." : <><Download className="w-5 h-5 mr-2" /> Download PDF</>}
             </button>
+            <ExportMenu data={view} summary={aiSummary} variantName={variant?.name} />
+            <button
+              onClick={() => navigate(`/cover-letter/${id}`)}
+              className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-all flex items-center justify-center mb-4"
+            >
+              <Mail className="w-5 h-5 mr-2" /> Write Cover Letter
+            </button>
+            <button
+              onClick={() => navigate(`/history/${id}`)}
+              className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-all flex items-center justify-center mb-4"
+            >
+              <History className="w-5 h-5 mr-2" /> Version History
+            </button>
             <p className="text-xs text-slate-500 text-center">
               Your resume is optimized for ATS. Download and start applying!
             </p>
           </div>
 
-          <div className="bg-indigo-500/10 p-6 rounded-3xl border border-indigo-500/20">
-            <h3 className="text-lg font-bold text-indigo-300 mb-3 flex items-center">
-              <Sparkles className="w-5 h-5 mr-2" /> LinkedIn Summary
-            </h3>
-            {loadingAi ? (
-              <div className="animate-pulse space-y-2">
-                <div className="h-4 bg-indigo-500/20 rounded w-full"></div>
-                <div className="h-4 bg-indigo-500/20 rounded w-5/6"></div>
-                <div className="h-4 bg-indigo-500/20 rounded w-4/6"></div>
-              </div>
-            ) : (
-              <p className="text-sm text-indigo-200 italic leading-relaxed">
-                "{aiSummary}"
-              </p>
-            )}
-            <button onClick={generateSummary} className="mt-4 text-xs font-bold text-indigo-400 hover:underline">
-              Regenerate AI Summary
-            </button>
-          </div>
+          <SummaryStudio
+            summary={aiSummary}
+            history={data.summaryHistory || []}
+            generating={loadingAi}
+            onGenerate={(options) => generateSummary(options)}
+            onPin={saveSummary}
+          />
         </div>
 
         {/* Resume Content */}
         <div className="md:w-2/3">
-          <div id="resume-content" className="bg-white shadow-2xl p-12 min-h-[1123px] w-full resume-container rounded-sm">
-            {/* Header */}
-            <header className="text-center mb-8">
-              <h1 className="text-3xl font-bold uppercase tracking-tight mb-2">{data.name}</h1>
-              <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-slate-700">
-                <span className="flex items-center"><Mail className="w-3 h-3 mr-1" /> {data.email}</span>
-                <span className="flex items-center"><Phone className="w-3 h-3 mr-1" /> {data.phone}</span>
-                <span className="flex items-center"><MapPin className="w-3 h-3 mr-1" /> {data.location}</span>
-                {data.linkedin && <span className="flex items-center"><Linkedin className="w-3 h-3 mr-1" /> LinkedIn</span>}
-                {data.github && <span className="flex items-center"><Github className="w-3 h-3 mr-1" /> GitHub</span>}
-              </div>
-            </header>
-
-            {/* LinkedIn About (Optional in Resume but requested) */}
-            <section className="mb-6">
-              <h2 className="resume-section-title">Professional Summary</h2>
-              <p className="text-sm leading-relaxed">{aiSummary}</p>
-            </section>
-
-            {/* Education */}
-            <section className="mb-6">
-              <h2 className="resume-section-title">Education</h2>
-              <div className="flex justify-between items-start mb-1">
-                <div className="font-bold text-sm">{data.college}</div>
-                <div className="text-sm italic">{data.year}</div>
-              </div>
-              <div className="flex justify-between items-center text-sm">
-                <div>{data.degree}</div>
-                {data.cgpa && <div>CGPA: {data.cgpa}</div>}
-              </div>
-            </section>
-
-            {/* Skills */}
-            <section className="mb-6">
-              <h2 className="resume-section-title">Skills</h2>
-              <div className="text-sm mb-2">
-                <span className="font-bold">Technical: </span> {data.technicalSkills}
-              </div>
-              <div className="text-sm">
-                <span className="font-bold">Soft Skills: </span> {data.softSkills}
-              </div>
-            </section>
-
-            {/* Projects */}
-            <section className="mb-6">
-              <h2 className="resume-section-title">Projects</h2>
-              <div className="space-y-4">
-                {data.projects.map((project, i) => (
-                  <div key={i}>
-                    <div className="flex justify-between items-center mb-1">
-                      <div className="font-bold text-sm">{project.title}</div>
-                      <div className="text-xs italic text-slate-600">{project.technologies}</div>
-                    </div>
-                    <p className="text-sm leading-relaxed">{project.description}</p>
-                  </div>
-                ))}
-              </div>
-            </section>
-
-            {/* Activities */}
-            <section>
-              <h2 className="resume-section-title">Activities & Achievements</h2>
-              <div className="space-y-4">
-                {data.activities.map((activity, i) => (
-                  <div key={i}>
-                    <div className="font-bold text-sm mb-1">{activity.role}</div>
-                    <p className="text-sm leading-relaxed">{activity.achievements}</p>
-                  </div>
-                ))}
-              </div>
-            </section>
-          </div>
+          <ResumePage id="resume-content" data={view} summary={aiSummary} zoom="fit" className="shadow-2xl rounded-sm" onPaginate={setPageCount} />
         </div>
       </div>
     </div>
@@ -618,18 +1172,31 @@ const ResumePreview = ({ data }: { data: ResumeData | null }) => {
 
 // --- App Shell ---
 
-export default function App() {
-  const [resumeData, setResumeData] = useState<ResumeData | null>(null);
+const AppShell = () => (
+  <AuthProvider>
+    <AnimatePresence mode="wait">
+      <Outlet />
+    </AnimatePresence>
+  </AuthProvider>
+);
 
-  return (
-    <Router>
-      <AnimatePresence mode="wait">
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/form" element={<ResumeForm setResumeData={setResumeData} />} />
-          <Route path="/preview" element={<ResumePreview data={resumeData} />} />
-        </Routes>
-      </AnimatePresence>
-    </Router>
-  );
+// A data router, so the form can block navigation while it has unsaved changes.
+const router = createBrowserRouter(createRoutesFromElements(
+  <Route element={<AppShell />}>
+    <Route path="/" element={<Landing />} />
+    <Route path="/login" element={<AuthPage mode="login" />} />
+    <Route path="/signup" element={<AuthPage mode="signup" />} />
+    <Route element={<RequireAuth />}>
+      <Route path="/import" element={<ImportResumePage />} />
+      <Route path="/form" element={<ResumeForm />} />
+      <Route path="/form/:id" element={<ResumeForm />} />
+      <Route path="/preview/:id" element={<ResumePreview />} />
+      <Route path="/cover-letter/:id" element={<CoverLetterPage />} />
+      <Route path="/history/:id" element={<VersionHistory />} />
+    </Route>
+  </Route>
+));
+
+export default function App() {
+  return <RouterProvider router={router} />;
 }
@@ -0,0 +1,123 @@
+import type { BulletSection, CoverLetterContent, CoverLetterTarget, ResumeData, ResumeRecord, ResumeSummary, ResumeVersion, ResumeVersionRecord, ShareLink, SummaryOptions, TailoringSuggestion, User } from './types';
+import { normalizeResume } from './schema';
+
+const normalizeRecord = (record: ResumeRecord): ResumeRecord => ({
+  ...record,
+  data: normalizeResume(record.data),
+});
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Resolves to null when nobody is signed in.
+export const getCurrentUser = () => request<User | null>('/api/auth/me');
+
+export const signUp = (email: string, password: string) =>
+  request<User>('/api/auth/signup', { method: 'POST', body: JSON.stringify({ email, password }) });
+
+export const logIn = (email: string, password: string) =>
+  request<User>('/api/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) });
+
+export const logOut = () => request<void>('/api/auth/logout', { method: 'POST' });
+
+export const listResumes = () => request<ResumeSummary[]>('/api/resumes');
+
+export const getResume = (id: string) =>
+  request<ResumeRecord>(`/api/resumes/${id}`).then(normalizeRecord);
+
+export const createResume = (data: ResumeData) =>
+  request<ResumeRecord>('/api/resumes', { method: 'POST', body: JSON.stringify(data) });
+
+// Pass snapshot for saves that should appear in the version history.
+export const updateResume = (id: string, data: ResumeData, { snapshot = false } = {}) =>
+  request<ResumeRecord>(`/api/resumes/${id}${snapshot ? '?snapshot=true' : ''}`, { method: 'PUT', body: JSON.stringify(data) });
+
+export const listVersions = (id: string) => request<ResumeVersion[]>(`/api/resumes/${id}/versions`);
+
+export const getVersion = (id: string, versionId: number) =>
+  request<ResumeVersionRecord>(`/api/resumes/${id}/versions/${versionId}`).then((version) => ({
+    ...version,
+    data: normalizeResume(version.data),
+  }));
+
+export const restoreVersion = (id: string, versionId: number) =>
+  request<ResumeRecord>(`/api/resumes/${id}/versions/${versionId}/restore`, { method: 'POST' }).then(normalizeRecord);
+
+// Resolves to null while the resume has never been shared.
+export const getShareLink = (id: string) => request<ShareLink | null>(`/api/resumes/${id}/share`);
+
+export const updateShareLink = (id: string, settings: { enabled: boolean; expiresAt: string | null }) =>
+  request<ShareLink>(`/api/resumes/${id}/share`, { method: 'PUT', body: JSON.stringify(settings) });
+
+export const regenerateShareLink = (id: string) =>
+  request<ShareLink>(`/api/resumes/${id}/share/regenerate`, { method: 'POST' });
+
+export const deleteResume = (id: string) =>
+  request<void>(`/api/resumes/${id}`, { method: 'DELETE' });
+
+export const generateSummaries = (data: ResumeData, options: SummaryOptions, count = 3) =>
+  request<{ summaries: string[]; provider: string }>('/api/ai/summary', {
+    method: 'POST',
+    body: JSON.stringify({ data, options, count }),
+  });
+
+export const suggestTailoring = (data: ResumeData, jobDescription: string, keywords: string[]) =>
+  request<{ suggestions: TailoringSuggestion[]; provider: string }>('/api/ai/tailor', {
+    method: 'POST',
+    body: JSON.stringify({ data, jobDescription, keywords }),
+  });
+
+export const generateCoverLetter = (data: ResumeData, target: CoverLetterTarget) =>
+  request<{ letter: CoverLetterContent; provider: string }>('/api/ai/cover-letter', {
+    method: 'POST',
+    body: JSON.stringify({ data, ...target }),
+  });
+
+export const enhanceImport = (text: string, draft: ResumeData) =>
+  request<{ data: ResumeData; provider: string }>('/api/ai/import', {
+    method: 'POST',
+    body: JSON.stringify({ text, draft }),
+  });
+
+/**
+ * Streams an AI rewrite of one project or activity into bullets, calling
+ * onText with the full text received so far. Resolves with the final text.
+ */
+export async function streamBulletRewrite(
+  data: ResumeData,
+  section: BulletSection,
+  index: number,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetch('/api/ai/rewrite', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, section, index }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+  return text + decoder.decode();
+}
@@ -0,0 +1,142 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { Link, Navigate, Outlet, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, LogIn, UserPlus } from 'lucide-react';
+import { getCurrentUser, logIn, logOut, signUp } from './api';
+import type { User } from './types';
+import { clearAllDrafts } from './drafts';
+
+interface AuthState {
+  // undefined while the session is still being checked.
+  user: User | null | undefined;
+  login: (email: string, password: string) => Promise<void>;
+  signup: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthState | null>(null);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(setUser)
+      .catch((error) => {
+        console.error("Error checking session:", error);
+        setUser(null);
+      });
+  }, []);
+
+  const state: AuthState = {
+    user,
+    login: async (email, password) => setUser(await logIn(email, password)),
+    signup: async (email, password) => setUser(await signUp(email, password)),
+    logout: async () => {
+      await logOut();
+      clearAllDrafts();
+      setUser(null);
+    },
+  };
+
+  return <AuthContext.Provider value={state}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const state = useContext(AuthContext);
+  if (!state) throw new Error("useAuth must be used inside AuthProvider");
+  return state;
+};
+
+/** Layout route for pages that need an account; sends visitors to log in and back again. */
+export const RequireAuth = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  if (user === undefined) return <div className="p-20 text-center text-slate-400">Loading...</div>;
+  if (!user) return <Navigate to={`/login?next=${encodeURIComponent(location.pathname + location.search)}`} replace />;
+  return <Outlet />;
+};
+
+// Only follow same-site paths after logging in, never an absolute URL from the query string.
+const safeNext = (next: string | null) => (next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+
+export const AuthPage = ({ mode }: { mode: 'login' | 'signup' }) => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { login, signup } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const next = safeNext(searchParams.get('next'));
+  const isSignup = mode === 'signup';
+
+  const submit = async (event: { preventDefault: () => void }) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError("");
+    try {
+      await (isSignup ? signup : login)(email, password);
+      navigate(next, { replace: true });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Something went wrong. Try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const switchLink = `${isSignup ? '/login' : '/signup'}${next !== '/' ? `?next=${encodeURIComponent(next)}` : ''}`;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-br from-slate-950 to-indigo-950">
+      <div className="w-full max-w-md">
+        <button onClick={() => navigate('/')} className="mb-8 flex items-center text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Home
+        </button>
+        <form onSubmit={submit} className="bg-slate-900 p-8 rounded-3xl shadow-2xl border border-slate-800 space-y-5">
+          <h2 className="text-2xl font-bold text-white flex items-center">
+            {isSignup ? <UserPlus className="w-6 h-6 mr-2 text-indigo-400" /> : <LogIn className="w-6 h-6 mr-2 text-indigo-400" />}
+            {isSignup ? "Create your account" : "Log in"}
+          </h2>
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">Email</label>
+            <input
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              placeholder="john@example.com"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">Password</label>
+            <input
+              type="password"
+              autoComplete={isSignup ? 'new-password' : 'current-password'}
+              required
+              minLength={isSignup ? 8 : undefined}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+            />
+            {isSignup && <p className="text-xs text-slate-500 mt-1">At least 8 characters.</p>}
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all disabled:opacity-50 shadow-lg shadow-indigo-500/20"
+          >
+            {submitting ? "Please wait..." : isSignup ? "Sign Up" : "Log In"}
+          </button>
+          <p className="text-sm text-slate-400 text-center">
+            {isSignup ? "Already have an account? " : "New here? "}
+            <Link to={switchLink} className="text-indigo-400 hover:text-indigo-300 font-medium">{isSignup ? "Log in" : "Create an account"}</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, Mail, Save, Sparkles } from 'lucide-react';
+import { getResume, updateResume, generateCoverLetter } from './api';
+import { renderCoverLetterPdf } from './pdf';
+import { ResumeHeader } from './templates';
+import { PAGE_SIZES, resolveTheme, themeVars } from './theme';
+import { fileBaseName } from './utils';
+import type { CoverLetter, ResumeData } from './types';
+
+const EMPTY_LETTER: CoverLetter = { company: '', role: '', jobDescription: '', greeting: '', hook: '', evidence: ['', ''], closing: '' };
+
+// Paragraphs are edited in place on the page; field-sizing lets each textarea grow with its text.
+const LetterParagraph = ({ value, placeholder, onChange }: { value: string; placeholder: string; onChange: (value: string) => void }) => (
+  <textarea
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    placeholder={placeholder}
+    className="w-full resize-none bg-transparent text-sm leading-relaxed outline-none rounded hover:bg-slate-50 focus:bg-indigo-50 [field-sizing:content]"
+  />
+);
+
+export const CoverLetterPage = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const [data, setData] = useState<ResumeData | null>(null);
+  const [loadingResume, setLoadingResume] = useState(true);
+  const [letter, setLetter] = useState<CoverLetter>(EMPTY_LETTER);
+  const [generating, setGenerating] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    if (!id) return;
+    getResume(id)
+      .then((record) => {
+        setData(record.data);
+        if (record.data.coverLetter) setLetter({ ...EMPTY_LETTER, ...record.data.coverLetter });
+      })
+      .catch((error) => console.error("Error loading resume:", error))
+      .finally(() => setLoadingResume(false));
+  }, [id]);
+
+  const update = (changes: Partial<CoverLetter>) => {
+    setLetter((current) => ({ ...current, ...changes }));
+    setStatus("");
+  };
+
+  const updateEvidence = (index: number, text: string) =>
+    update({ evidence: letter.evidence.map((paragraph, i) => (i === index ? text : paragraph)) });
+
+  const save = async (next: CoverLetter) => {
+    if (!id || !data) return;
+    try {
+      const record = await updateResume(id, { ...data, coverLetter: next });
+      setData(record.data);
+      setStatus("Saved");
+    } catch (error) {
+      console.error("Error saving cover letter:", error);
+      setStatus("Could not save the letter");
+    }
+  };
+
+  const generate = async () => {
+    if (!data) return;
+    setGenerating(true);
+    setStatus("");
+    try {
+      const { letter: content } = await generateCoverLetter(data, { company: letter.company, role: letter.role, jobDescription: letter.jobDescription });
+      const next = { ...letter, ...content };
+      setLetter(next);
+      await save(next);
+    } catch (error) {
+      console.error("Error generating cover letter:", error);
+      setStatus("Could not generate a letter. Try again later.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const downloadPDF = () => {
+    if (!data) return;
+    renderCoverLetterPdf(data, letter).save(`${fileBaseName(data.name)}-cover-letter.pdf`);
+  };
+
+  if (loadingResume) return <div className="p-20 text-center text-slate-400">Loading resume...</div>;
+  if (!data) return <div className="p-20 text-center text-slate-400">No data provided. <Link to="/" className="text-indigo-400">Go back</Link></div>;
+
+  const theme = resolveTheme(data);
+  const page = PAGE_SIZES[theme.pageSize];
+  const hasLetter = [letter.greeting, letter.hook, ...letter.evidence, letter.closing].some((text) => text.trim());
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 px-4">
+      <div className="max-w-5xl mx-auto flex flex-col md:flex-row gap-8">
+        {/* Controls */}
+        <div className="md:w-1/3 space-y-6">
+          <button onClick={() => navigate(`/preview/${id}`)} className="flex items-center text-slate-400 hover:text-white transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Resume
+          </button>
+
+          <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-4">
+            <h3 className="text-xl font-bold text-white flex items-center">
+              <Mail className="w-5 h-5 mr-2 text-indigo-400" /> Cover Letter
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Company</label>
+              <input value={letter.company} onChange={(e) => update({ company: e.target.value })} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Acme Corp" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Role</label>
+              <input value={letter.role} onChange={(e) => update({ role: e.target.value })} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" placeholder="Software Engineering Intern" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Job Description (optional)</label>
+              <textarea value={letter.jobDescription} onChange={(e) => update({ jobDescription: e.target.value })} className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-32" placeholder="Paste the job description here..." />
+            </div>
+            <button
+              onClick={generate}
+              disabled={generating || !letter.company.trim() || !letter.role.trim()}
+              className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all flex items-center justify-center disabled:opacity-50"
+            >
+              <Sparkles className="w-5 h-5 mr-2" />
+              {generating ? "Writing..." : hasLetter ? "Regenerate Letter" : "Generate Letter"}
+            </button>
+          </div>
+
+          <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-3">
+            <button onClick={() => save(letter)} disabled={!hasLetter} className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-all flex items-center justify-center disabled:opacity-50">
+              <Save className="w-5 h-5 mr-2" /> Save Letter
+            </button>
+            <button onClick={downloadPDF} disabled={!hasLetter} className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-all flex items-center justify-center disabled:opacity-50">
+              <Download className="w-5 h-5 mr-2" /> Download PDF
+            </button>
+            {status && <p className="text-xs text-slate-400 text-center">{status}</p>}
+          </div>
+        </div>
+
+        {/* Letter */}
+        <div className="md:w-2/3">
+          <div className="bg-white shadow-2xl w-full resume-container rounded-sm p-(--resume-margin)" style={{ ...themeVars(theme), aspectRatio: `${page.width} / ${page.height}` }}>
+            <ResumeHeader data={data} template={data.template} />
+            <div className="space-y-4 text-sm">
+              <p>{new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>
+              <div>
+                <p>{letter.company || "Company"}</p>
+                <p className="font-bold">Re: {letter.role || "Role"}</p>
+              </div>
+              <LetterParagraph value={letter.greeting} placeholder="Dear Hiring Team," onChange={(greeting) => update({ greeting })} />
+              <LetterParagraph value={letter.hook} placeholder="Why this role at this company..." onChange={(hook) => update({ hook })} />
+              {letter.evidence.map((paragraph, i) => (
+                <div key={i}>
+                  <LetterParagraph value={paragraph} placeholder="Evidence from a project or activity..." onChange={(text) => updateEvidence(i, text)} />
+                </div>
+              ))}
+              <LetterParagraph value={letter.closing} placeholder="Closing and thanks..." onChange={(closing) => update({ closing })} />
+              <div>
+                <p>Sincerely,</p>
+                <p className="font-bold mt-2">{data.name}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import type { DateRange, ResumeData } from './types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Formats a "YYYY-MM" month string as "Jun 2024"; other strings are returned unchanged. */
+export function formatMonth(value: string | undefined) {
+  const match = /^(\d{4})-(\d{2})$/.exec(value || '');
+  if (!match) return value || '';
+  const month = MONTHS[Number(match[2]) - 1];
+  return month ? `${month} ${match[1]}` : match[1];
+}
+
+/** The current month as a "YYYY-MM" string, comparable with stored dates. */
+export function currentMonth(now = new Date()) {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Formats a start/end pair as "Jun 2024 – Present"; an empty end date means the entry is ongoing. */
+export function formatRange(start: string | undefined, end: string | undefined) {
+  if (!start && !end) return '';
+  if (!start) return formatMonth(end);
+  return `${formatMonth(start)} – ${end ? formatMonth(end) : 'Present'}`;
+}
+
+/** Education is "Present" while studying, with the expected graduation shown alongside. */
+export function formatEducationRange(data: { educationStart: string; educationEnd: string; currentStudent: boolean }) {
+  if (!data.currentStudent) return formatRange(data.educationStart, data.educationEnd || data.educationStart);
+  const range = formatRange(data.educationStart, '');
+  const expected = data.educationEnd ? `Expected ${formatMonth(data.educationEnd)}` : '';
+  return [range, expected].filter(Boolean).join(' · ');
+}
+
+// Ongoing entries sort first, then by end and start date descending; undated entries keep their order at the end.
+const recencyKey = (entry: Partial<DateRange>) => entry.endDate || (entry.startDate ? '9999-12' : '');
+
+/** Returns a copy of the entries in reverse-chronological order. */
+export function sortByRecency<T extends Partial<DateRange>>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => {
+    const byEnd = recencyKey(b).localeCompare(recencyKey(a));
+    return byEnd !== 0 ? byEnd : (b.startDate || '').localeCompare(a.startDate || '');
+  });
+}
+
+/** Projects or activities in print order: most recent first, unless the resume was arranged by hand (as variants are). */
+export const printOrder = <T extends Partial<DateRange>>(data: Pick<ResumeData, 'entryOrder'>, entries: T[]): T[] =>
+  data.entryOrder === 'manual' ? entries : sortByRecency(entries);
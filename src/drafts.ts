@@ -0,0 +1,39 @@
+import type { ResumeData } from './types';
+
+/** Unsaved form state kept in the browser so a crash or reload does not lose it. */
+export interface FormDraft {
+  savedAt: string;
+  values: ResumeData;
+}
+
+// New resumes share one slot; existing resumes get one each.
+const draftKey = (id?: string) => `resume-draft:${id || 'new'}`;
+
+export function loadDraft(id?: string): FormDraft | null {
+  try {
+    const draft = JSON.parse(localStorage.getItem(draftKey(id)) || 'null');
+    return draft && typeof draft.savedAt === 'string' && typeof draft.values === 'object' ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(id: string | undefined, values: ResumeData) {
+  try {
+    localStorage.setItem(draftKey(id), JSON.stringify({ savedAt: new Date().toISOString(), values }));
+  } catch (error) {
+    // Storage can be full or disabled (private browsing); autosave is best effort.
+    console.warn("Could not autosave draft:", error);
+  }
+}
+
+export function clearDraft(id?: string) {
+  localStorage.removeItem(draftKey(id));
+}
+
+// Drafts are per device, not per account, so they go when the user logs out.
+export function clearAllDrafts() {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith('resume-draft:'))
+    .forEach((key) => localStorage.removeItem(key));
+}
@@ -0,0 +1,21 @@
+import type { ResumeData, RewriteSection } from './types';
+
+/** The editable text of one entry; experience bullets are joined one per line. */
+export function entryText(data: ResumeData, section: RewriteSection, index: number): string | null {
+  if (section === 'projects') return data.projects?.[index]?.description ?? null;
+  if (section === 'activities') return data.activities?.[index]?.achievements ?? null;
+  const job = data.experience?.[index];
+  return job ? job.bullets.join('\n') : null;
+}
+
+/** Returns a copy of the resume with one entry's text replaced. */
+export function withEntryText(data: ResumeData, section: RewriteSection, index: number, text: string): ResumeData {
+  if (section === 'projects') {
+    return { ...data, projects: data.projects.map((project, i) => (i === index ? { ...project, description: text } : project)) };
+  }
+  if (section === 'activities') {
+    return { ...data, activities: data.activities.map((activity, i) => (i === index ? { ...activity, achievements: text } : activity)) };
+  }
+  const bullets = text.split('\n').map((line) => line.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+  return { ...data, experience: data.experience.map((job, i) => (i === index ? { ...job, bullets } : job)) };
+}
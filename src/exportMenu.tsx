@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { ChevronDown, FileDown, FileJson, FileText, FileType } from 'lucide-react';
+import { resumeOutline, toDocx, toMarkdown, toPlainText, type ExportFormat } from './exports';
+import { toJsonResume } from './jsonResume';
+import { resolveTheme } from './theme';
+import { downloadFile, fileBaseName } from './utils';
+import type { ResumeData } from './types';
+
+type MenuFormat = ExportFormat | 'json';
+
+const FORMATS: { id: MenuFormat; label: string; hint: string; icon: typeof FileText }[] = [
+  { id: 'docx', label: 'Word (.docx)', hint: 'For career portals that ask for Word', icon: FileType },
+  { id: 'text', label: 'Plain text (.txt)', hint: 'ATS-safe, for pasting into application forms', icon: FileText },
+  { id: 'markdown', label: 'Markdown (.md)', hint: 'For GitHub profiles and personal sites', icon: FileDown },
+  { id: 'json', label: 'JSON Resume (.json)', hint: 'To move your data to other tools', icon: FileJson },
+];
+
+export const ExportMenu = ({ data, summary, variantName }: { data: ResumeData; summary: string; variantName?: string }) => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState("");
+
+  const exportAs = async (format: MenuFormat) => {
+    setOpen(false);
+    setError("");
+    const baseName = fileBaseName(data.name, variantName);
+    try {
+      if (format === 'json') {
+        downloadFile(`${baseName}.json`, JSON.stringify(toJsonResume({ ...data, linkedinAbout: summary }), null, 2), 'application/json');
+        return;
+      }
+      const outline = resumeOutline(data, summary);
+      if (format === 'docx') {
+        downloadFile(`${baseName}.docx`, await toDocx(outline, resolveTheme(data)), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      } else if (format === 'markdown') {
+        downloadFile(`${baseName}.md`, toMarkdown(outline), 'text/markdown');
+      } else {
+        downloadFile(`${baseName}.txt`, toPlainText(outline), 'text/plain');
+      }
+    } catch (exportError) {
+      console.error("Export Error:", exportError);
+      setError("Could not export the resume. Try again.");
+    }
+  };
+
+  return (
+    <div className="relative mb-4">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-all flex items-center justify-center"
+      >
+        <FileDown className="w-5 h-5 mr-2" /> Export As...
+        <ChevronDown className={`w-4 h-4 ml-2 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <ul className="absolute z-10 mt-2 w-full p-2 rounded-xl bg-slate-800 border border-slate-700 shadow-xl">
+          {FORMATS.map((format) => (
+            <li key={format.id}>
+              <button onClick={() => exportAs(format.id)} className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-700 flex items-start">
+                <format.icon className="w-4 h-4 mr-2 mt-0.5 text-indigo-400 shrink-0" />
+                <span>
+                  <span className="block text-sm font-bold text-white">{format.label}</span>
+                  <span className="block text-xs text-slate-400">{format.hint}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
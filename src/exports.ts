@@ -0,0 +1,247 @@
+import type { ResumeData, ResumeTheme } from './types';
+import { formatEducationRange, formatMonth, formatRange, printOrder, sortByRecency } from './dates';
+import { formatSkillGroup, groupSkills } from './skills';
+import { filledEntries, isBuiltInSection, sectionTitle, visibleSections, type BuiltInSectionId } from './sections';
+import { FONT_FAMILIES, PAGE_SIZES, ruleColor } from './theme';
+
+// Text formats are generated from the data rather than the rendered preview, so
+// they share one outline: the visible sections in the resume's layout order.
+
+interface ExportEntry {
+  heading: string;
+  meta: string;
+  detail?: string;
+  url?: string;
+  paragraph?: string;
+  bullets: string[];
+}
+
+interface ExportSection {
+  title: string;
+  lines?: string[];
+  entries?: ExportEntry[];
+}
+
+interface ContactItem {
+  label: string;
+  url?: string;
+}
+
+export interface ResumeOutline {
+  name: string;
+  contact: ContactItem[];
+  sections: ExportSection[];
+}
+
+export type ExportFormat = 'docx' | 'markdown' | 'text';
+
+// Multi-line descriptions become bullet lists; a single paragraph stays a paragraph.
+const toBody = (text: string) => {
+  const lines = text.split('\n').map((line) => line.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+  return lines.length <= 1 ? { paragraph: lines[0], bullets: [] } : { bullets: lines };
+};
+
+const datedTitle = (title: string, date: string) => (date ? `${title} (${formatMonth(date)})` : title);
+
+export function resumeOutline(data: ResumeData, summary: string): ResumeOutline {
+  const contact: ContactItem[] = [
+    { label: data.email, url: data.email && `mailto:${data.email}` },
+    { label: data.phone },
+    { label: data.location },
+    { label: data.linkedin, url: data.linkedin },
+    { label: data.github, url: data.github },
+  ].filter((item) => item.label);
+
+  const builtIn: Record<BuiltInSectionId, Omit<ExportSection, 'title'>> = {
+    summary: { lines: [summary] },
+    education: {
+      entries: [{
+        heading: data.college,
+        meta: formatEducationRange(data),
+        detail: [data.degree, data.cgpa && `CGPA: ${data.cgpa}`].filter(Boolean).join(', '),
+        bullets: [],
+      }],
+    },
+    skills: { lines: groupSkills(data.skills).map(formatSkillGroup) },
+    experience: {
+      entries: sortByRecency(data.experience || []).map((job) => ({
+        heading: [job.title, job.company].filter(Boolean).join(', '),
+        meta: formatRange(job.startDate, job.endDate),
+        detail: job.location,
+        bullets: job.bullets.map((bullet) => bullet.trim()).filter(Boolean),
+      })),
+    },
+    projects: {
+      entries: printOrder(data, data.projects).map((project) => ({
+        heading: project.title,
+        meta: formatRange(project.startDate, project.endDate),
+        detail: project.technologies,
+        ...toBody(project.description),
+      })),
+    },
+    activities: {
+      entries: printOrder(data, data.activities).map((activity) => ({
+        heading: activity.role,
+        meta: formatRange(activity.startDate, activity.endDate),
+        ...toBody(activity.achievements),
+      })),
+    },
+    certifications: {
+      entries: (data.certifications || []).map((cert) => ({
+        heading: datedTitle(cert.name, cert.date),
+        meta: '',
+        detail: cert.issuer,
+        url: cert.credentialUrl,
+        bullets: [],
+      })),
+    },
+    honors: {
+      entries: (data.honors || []).map((honor) => ({
+        heading: datedTitle(honor.title, honor.date),
+        meta: '',
+        detail: [honor.issuer, honor.description].filter(Boolean).join(': '),
+        bullets: [],
+      })),
+    },
+  };
+
+  const sections: ExportSection[] = visibleSections(data).map((section) => ({
+    title: sectionTitle(section),
+    ...(isBuiltInSection(section.id)
+      ? builtIn[section.id]
+      : {
+        entries: filledEntries(section).map((entry) => ({
+          heading: entry.title,
+          meta: entry.date ? formatMonth(entry.date) : '',
+          detail: entry.subtitle,
+          ...toBody(entry.description),
+        })),
+      }),
+  }));
+
+  return {
+    name: data.name,
+    contact,
+    sections: sections.filter((section) => section.lines?.some(Boolean) || section.entries?.length),
+  };
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#<>|])/g, '\\$1');
+
+export function toMarkdown(outline: ResumeOutline) {
+  const lines = [
+    `# ${escapeMarkdown(outline.name)}`,
+    '',
+    outline.contact.map((item) => (item.url ? `[${escapeMarkdown(item.label)}](${item.url})` : escapeMarkdown(item.label))).join(' · '),
+  ];
+  outline.sections.forEach((section) => {
+    lines.push('', `## ${section.title}`, '');
+    section.lines?.filter(Boolean).forEach((line) => lines.push(escapeMarkdown(line), ''));
+    section.entries?.forEach((entry) => {
+      const heading = entry.url ? `[${escapeMarkdown(entry.heading)}](${entry.url})` : escapeMarkdown(entry.heading);
+      lines.push(`### ${heading}`);
+      const meta = [entry.detail, entry.meta].filter(Boolean).map(escapeMarkdown).join(' · ');
+      if (meta) lines.push(`*${meta}*`);
+      if (entry.paragraph) lines.push('', escapeMarkdown(entry.paragraph));
+      if (entry.bullets.length > 0) lines.push('', ...entry.bullets.map((bullet) => `- ${escapeMarkdown(bullet)}`));
+      lines.push('');
+    });
+  });
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
+
+// Applicant tracking systems and web forms choke on typographic punctuation, so stick to ASCII.
+const toAscii = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[•·]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\n]/g, (char) => char.normalize('NFKD').replace(/[^\x20-\x7E]/g, ''));
+
+export function toPlainText(outline: ResumeOutline) {
+  const lines = [outline.name.toUpperCase(), outline.contact.map((item) => item.label).join(' | ')];
+  outline.sections.forEach((section) => {
+    lines.push('', section.title.toUpperCase());
+    section.lines?.filter(Boolean).forEach((line) => lines.push(line));
+    section.entries?.forEach((entry, i) => {
+      if (i > 0) lines.push('');
+      lines.push([entry.heading, entry.meta].filter(Boolean).join(' | '));
+      if (entry.detail) lines.push(entry.detail);
+      if (entry.url) lines.push(entry.url);
+      if (entry.paragraph) lines.push(entry.paragraph);
+      entry.bullets.forEach((bullet) => lines.push(`- ${bullet}`));
+    });
+  });
+  return `${toAscii(lines.join('\n')).trim()}\n`;
+}
+
+// Word measures pages in twentieths of a point and font sizes in half points.
+const TWIPS_PER_MM = 1440 / 25.4;
+
+/**
+ * A Word document with real headings and bullet lists in the theme's page size, margins, font and accent.
+ * Word reflows it, so fit-to-page doesn't apply. The library is loaded on demand.
+ */
+export async function toDocx(outline: ResumeOutline, theme: ResumeTheme): Promise<Blob> {
+  const { AlignmentType, Document, ExternalHyperlink, HeadingLevel, Packer, Paragraph, TextRun } = await import('docx');
+
+  const page = PAGE_SIZES[theme.pageSize];
+  const margin = Math.round(theme.margin * TWIPS_PER_MM);
+  const halfPoints = (scale: number) => Math.round(theme.fontSize * 2 * scale);
+  const contentWidth = Math.round(page.width * TWIPS_PER_MM) - margin * 2;
+  const accent = theme.accent.slice(1).toUpperCase();
+
+  const link = (text: string, url: string) => new ExternalHyperlink({ link: url, children: [new TextRun({ text, style: 'Hyperlink' })] });
+
+  const contact = outline.contact.flatMap((item, i) => [
+    ...(i > 0 ? [new TextRun({ text: '  |  ' })] : []),
+    item.url ? link(item.label, item.url) : new TextRun({ text: item.label }),
+  ]);
+
+  const body = outline.sections.flatMap((section) => [
+    new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_1 }),
+    ...(section.lines || []).filter(Boolean).map((line) => new Paragraph({ text: line })),
+    ...(section.entries || []).flatMap((entry) => [
+      new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        children: [
+          entry.url ? link(entry.heading, entry.url) : new TextRun({ text: entry.heading }),
+          ...(entry.meta ? [new TextRun({ text: `\t${entry.meta}`, italics: true, bold: false })] : []),
+        ],
+        tabStops: [{ type: 'right', position: contentWidth }],
+      }),
+      ...(entry.detail ? [new Paragraph({ children: [new TextRun({ text: entry.detail, italics: true })] })] : []),
+      ...(entry.paragraph ? [new Paragraph({ text: entry.paragraph })] : []),
+      ...entry.bullets.map((bullet) => new Paragraph({ text: bullet, bullet: { level: 0 } })),
+    ]),
+  ]);
+
+  const doc = new Document({
+    creator: outline.name,
+    title: `${outline.name} Resume`,
+    styles: {
+      default: { document: { run: { font: FONT_FAMILIES[theme.fontFamily].docx, size: halfPoints(1) }, paragraph: { spacing: { line: Math.round(240 * theme.lineSpacing) } } } },
+      paragraphStyles: [
+        { id: 'Title', name: 'Title', basedOn: 'Normal', run: { size: halfPoints(1.7), bold: true } },
+        { id: 'Heading1', name: 'Heading 1', basedOn: 'Normal', next: 'Normal', run: { size: halfPoints(1.15), bold: true, allCaps: true, color: accent }, paragraph: { spacing: { before: 240, after: 80 }, border: { bottom: { style: 'single', size: 6, color: ruleColor(theme.accent).slice(1).toUpperCase(), space: 1 } } } },
+        { id: 'Heading2', name: 'Heading 2', basedOn: 'Normal', next: 'Normal', run: { size: halfPoints(1), bold: true }, paragraph: { spacing: { before: 120 } } },
+      ],
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: Math.round(page.width * TWIPS_PER_MM), height: Math.round(page.height * TWIPS_PER_MM) },
+          margin: { top: margin, right: margin, bottom: margin, left: margin },
+        },
+      },
+      children: [
+        new Paragraph({ text: outline.name, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+        new Paragraph({ children: contact, alignment: AlignmentType.CENTER }),
+        ...body,
+      ],
+    }],
+  });
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, History, RotateCcw } from 'lucide-react';
+import { listVersions, getVersion, restoreVersion } from './api';
+import { diffResumes, type ChangeKind, type FieldChange } from './resumeDiff';
+import { cn } from './utils';
+import type { ResumeData, ResumeVersion } from './types';
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  added: "border-green-500/30 bg-green-500/5",
+  removed: "border-red-500/30 bg-red-500/5",
+  changed: "border-slate-700 bg-slate-800/50",
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const scoreColor = (score: number) => (score < 50 ? "text-red-400" : score < 75 ? "text-yellow-400" : "text-green-400");
+
+const ChangeCard = ({ change }: { change: FieldChange }) => (
+  <div className={cn("p-4 rounded-2xl border text-sm", KIND_STYLES[change.kind])}>
+    <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">
+      {change.kind === 'added' ? "Added" : change.kind === 'removed' ? "Removed" : "Changed"} · {change.label}
+    </p>
+    {change.before !== undefined && <p className="text-red-300 line-through whitespace-pre-line">{change.before}</p>}
+    {change.after !== undefined && <p className="text-green-300 whitespace-pre-line">{change.after}</p>}
+  </div>
+);
+
+export const VersionHistory = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const [versions, setVersions] = useState<ResumeVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [snapshots, setSnapshots] = useState<Record<number, ResumeData>>({});
+  const [error, setError] = useState("");
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    listVersions(id)
+      .then((list) => {
+        setVersions(list);
+        setSelectedId(list[0]?.id ?? null);
+        setBaseId(list[1]?.id ?? null);
+      })
+      .catch((err) => setError(err.message));
+  }, [id]);
+
+  // Version bodies are fetched on demand and kept for the rest of the visit.
+  useEffect(() => {
+    [selectedId, baseId].filter((versionId) => versionId !== null && !snapshots[versionId]).forEach((versionId) => {
+      getVersion(id, versionId)
+        .then((version) => setSnapshots((current) => ({ ...current, [version.id]: version.data })))
+        .catch((err) => setError(err.message));
+    });
+  }, [selectedId, baseId]);
+
+  const select = (versionId: number) => {
+    setSelectedId(versionId);
+    const index = versions.findIndex((version) => version.id === versionId);
+    setBaseId(versions[index + 1]?.id ?? null);
+  };
+
+  const restore = async (versionId: number) => {
+    setRestoring(true);
+    try {
+      await restoreVersion(id, versionId);
+      navigate(`/preview/${id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not restore this version");
+      setRestoring(false);
+    }
+  };
+
+  if (!versions) return <div className="p-20 text-center text-slate-400">{error || "Loading history..."}</div>;
+
+  const selected = versions.find((version) => version.id === selectedId);
+  const after = selectedId !== null ? snapshots[selectedId] : undefined;
+  const before = baseId !== null ? snapshots[baseId] : undefined;
+  const changes = after && before ? diffResumes(before, after) : null;
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 px-4">
+      <div className="max-w-5xl mx-auto flex flex-col md:flex-row gap-8">
+        <div className="md:w-1/3 space-y-6">
+          <button onClick={() => navigate(`/preview/${id}`)} className="flex items-center text-slate-400 hover:text-white transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Resume
+          </button>
+
+          <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
+            <h3 className="text-xl font-bold mb-4 text-white flex items-center">
+              <History className="w-5 h-5 mr-2 text-indigo-400" /> Version History
+            </h3>
+            {versions.length === 0 ? (
+              <p className="text-sm text-slate-400">No saved versions yet. <Link to={`/form/${id}`} className="text-indigo-400">Edit and save</Link> to start the history.</p>
+            ) : (
+              <ul className="space-y-2">
+                {versions.map((version, i) => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => select(version.id)}
+                      className={cn(
+                        "w-full text-left p-3 rounded-xl border transition-all",
+                        version.id === selectedId ? "border-indigo-500 bg-indigo-500/10" : "border-slate-800 hover:border-slate-700"
+                      )}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-white">{formatTimestamp(version.createdAt)}</span>
+                        <span className={cn("text-sm font-black", scoreColor(version.score))}>{version.score}</span>
+                      </div>
+                      {i === 0 && <span className="text-xs text-slate-500">Latest</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="md:w-2/3 space-y-4">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {selected && (
+            <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-4">
+              <div className="flex flex-wrap gap-3 justify-between items-center">
+                <div className="text-sm text-slate-400 flex items-center gap-2">
+                  Changes from
+                  <select
+                    value={baseId ?? ''}
+                    onChange={(e) => setBaseId(e.target.value ? Number(e.target.value) : null)}
+                    className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-white text-sm outline-none"
+                  >
+                    <option value="">—</option>
+                    {versions.filter((version) => version.id !== selectedId).map((version) => (
+                      <option key={version.id} value={version.id}>{formatTimestamp(version.createdAt)} ({version.score})</option>
+                    ))}
+                  </select>
+                  to {formatTimestamp(selected.createdAt)}
+                </div>
+                {selected.id !== versions[0].id && (
+                  <button
+                    onClick={() => restore(selected.id)}
+                    disabled={restoring}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all flex items-center disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {restoring ? "Restoring..." : "Restore this version"}
+                  </button>
+                )}
+              </div>
+
+              {baseId === null ? (
+                <p className="text-sm text-slate-400">This is the first saved version. Pick another version to compare against.</p>
+              ) : !changes ? (
+                <p className="text-sm text-slate-400">Loading versions...</p>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-slate-400">No differences between these versions.</p>
+              ) : (
+                <div className="space-y-3">
+                  {changes.map((change, i) => <div key={i}><ChangeCard change={change} /></div>)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { importJsonResume, toJsonResume } from './jsonResume';
+import { normalizeResume } from './schema';
+
+const RESUME = {
+  basics: { name: 'Asha Rao', email: 'asha@example.com', phone: '+1 555 010 2000', location: { city: 'Pune' } },
+  education: [{ institution: 'State University', studyType: 'B.Sc.', area: 'Computer Science', startDate: '2021-09', endDate: '2025-05' }],
+  skills: [{ name: 'Frameworks', keywords: ['React'] }, { name: 'Soft Skills', keywords: ['Communication'] }],
+  projects: [{ name: 'Campus Market', description: 'Built a marketplace for students to trade textbooks.', keywords: ['React'] }],
+  volunteer: [{ position: 'Coding Club Lead', summary: 'Organized weekly workshops for 40 members.' }],
+};
+
+describe('importJsonResume', () => {
+  it('maps a JSON Resume and returns the validated data', () => {
+    const { data, issues } = importJsonResume(JSON.stringify(RESUME));
+    assert.deepEqual(issues, []);
+    assert.equal(data?.college, 'State University');
+    assert.equal(data?.degree, 'B.Sc. in Computer Science');
+    assert.deepEqual(data?.skills.map((skill) => skill.name), ['React', 'Communication']);
+    assert.equal(data?.projects[0].technologies, 'React');
+  });
+
+  it('reports sections with the wrong shape instead of throwing', () => {
+    for (const json of [
+      { basics: {}, work: {} },
+      { ...RESUME, skills: [{ keywords: 'React' }] },
+      { ...RESUME, skills: [{ keywords: [1] }] },
+    ]) {
+      const { data, issues } = importJsonResume(JSON.stringify(json));
+      assert.equal(data, null);
+      assert.ok(issues.length > 0);
+    }
+    assert.equal(importJsonResume(JSON.stringify({ basics: {}, work: {} })).issues[0].path, 'work');
+  });
+
+  it('rejects files that are not JSON or not a JSON Resume', () => {
+    assert.match(importJsonResume('{').issues[0].message, /not valid JSON/);
+    assert.match(importJsonResume('[]').issues[0].message, /missing "basics"/);
+  });
+
+  it('round-trips an exported resume', () => {
+    const { data } = importJsonResume(JSON.stringify(RESUME));
+    const again = importJsonResume(JSON.stringify(toJsonResume(normalizeResume(data))));
+    assert.deepEqual(again.issues, []);
+    assert.equal(again.data?.name, 'Asha Rao');
+  });
+});
@@ -0,0 +1,218 @@
+import * as z from 'zod';
+import { currentMonth } from './dates';
+import { newEntryId, resumeSchema } from './schema';
+import { SKILL_CATEGORIES, canonicalSkill, dedupeSkills, groupSkills } from './skills';
+import type { ResumeData, Skill } from './types';
+
+// The subset of the JSON Resume schema (https://jsonresume.org/schema) we map to and from.
+const text = z.string().optional();
+const textList = z.array(z.string()).optional();
+
+const jsonResumeProfileSchema = z.object({ network: text, username: text, url: text });
+type JsonResumeProfile = z.infer<typeof jsonResumeProfileSchema>;
+
+const jsonResumeSchema = z.object({
+  $schema: text,
+  basics: z.object({
+    name: text,
+    label: text,
+    email: text,
+    phone: text,
+    url: text,
+    summary: text,
+    location: z.object({ address: text, city: text, region: text, countryCode: text }).optional(),
+    profiles: z.array(jsonResumeProfileSchema).optional(),
+  }).optional(),
+  work: z.array(z.object({ name: text, position: text, location: text, startDate: text, endDate: text, summary: text, highlights: textList })).optional(),
+  volunteer: z.array(z.object({ organization: text, position: text, startDate: text, endDate: text, summary: text, highlights: textList })).optional(),
+  education: z.array(z.object({ institution: text, area: text, studyType: text, startDate: text, endDate: text, score: text })).optional(),
+  awards: z.array(z.object({ title: text, date: text, awarder: text, summary: text })).optional(),
+  certificates: z.array(z.object({ name: text, date: text, issuer: text, url: text })).optional(),
+  skills: z.array(z.object({ name: text, level: text, keywords: textList })).optional(),
+  projects: z.array(z.object({ name: text, description: text, highlights: textList, keywords: textList, startDate: text, endDate: text, url: text })).optional(),
+});
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+
+export interface ImportIssue {
+  path: string;
+  message: string;
+}
+
+// An import succeeded when it has no issues; data is null when the file could not be read or mapped at all.
+export interface ImportResult {
+  data: ResumeData | null;
+  issues: ImportIssue[];
+}
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+// JSON Resume dates are ISO 8601 ("2024", "2024-06" or "2024-06-15"); we keep month precision.
+const fromIsoDate = (value: string | undefined) => {
+  const match = /^(\d{4})(?:-(\d{2}))?/.exec(value?.trim() || '');
+  if (!match) return '';
+  return `${match[1]}-${match[2] || '01'}`;
+};
+
+const toIsoDate = (value: string) => value || undefined;
+
+const joinLines = (...parts: (string | string[] | undefined)[]) =>
+  parts.flat().map((part) => part?.trim()).filter(Boolean).join('\n');
+
+const findProfile = (profiles: JsonResumeProfile[] | undefined, network: string) =>
+  profiles?.find((profile) => profile.network?.toLowerCase() === network || profile.url?.toLowerCase().includes(`${network}.com`))?.url || '';
+
+export function toJsonResume(data: ResumeData): JsonResume {
+  const profiles: JsonResumeProfile[] = [];
+  if (data.linkedin) profiles.push({ network: 'LinkedIn', url: data.linkedin });
+  if (data.github) profiles.push({ network: 'GitHub', url: data.github });
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: data.name,
+      email: data.email,
+      phone: data.phone,
+      summary: data.linkedinAbout || undefined,
+      location: data.location ? { city: data.location } : undefined,
+      profiles,
+    },
+    work: (data.experience || []).map((job) => ({
+      name: job.company,
+      position: job.title,
+      location: job.location || undefined,
+      startDate: toIsoDate(job.startDate),
+      endDate: toIsoDate(job.endDate),
+      highlights: job.bullets.filter(Boolean),
+    })),
+    volunteer: data.activities.map((activity) => ({
+      position: activity.role,
+      startDate: toIsoDate(activity.startDate),
+      endDate: toIsoDate(activity.endDate),
+      summary: activity.achievements,
+    })),
+    education: [{
+      institution: data.college,
+      studyType: data.degree,
+      startDate: toIsoDate(data.educationStart),
+      endDate: toIsoDate(data.educationEnd),
+      score: data.cgpa || undefined,
+    }],
+    awards: (data.honors || []).map((honor) => ({
+      title: honor.title,
+      awarder: honor.issuer || undefined,
+      date: toIsoDate(honor.date),
+      summary: honor.description || undefined,
+    })),
+    certificates: (data.certifications || []).map((cert) => ({
+      name: cert.name,
+      issuer: cert.issuer,
+      date: toIsoDate(cert.date),
+      url: cert.credentialUrl || undefined,
+    })),
+    skills: groupSkills(data.skills).map((group) => ({ name: group.category, keywords: group.skills.map((skill) => skill.name) })),
+    projects: data.projects.map((project) => ({
+      name: project.title,
+      description: project.description,
+      keywords: splitList(project.technologies),
+      startDate: toIsoDate(project.startDate),
+      endDate: toIsoDate(project.endDate),
+    })),
+  };
+}
+
+/** Maps a JSON Resume document onto our model without validating the result. */
+export function fromJsonResume(json: JsonResume): ResumeData {
+  const basics = json.basics || {};
+  const education = json.education?.[0] || {};
+  // Groups named after one of our categories keep it; otherwise each skill is looked up in the dictionary.
+  const skills = (json.skills || []).flatMap((group) => {
+    const named = SKILL_CATEGORIES.find((category) => category.toLowerCase() === group.name?.trim().toLowerCase());
+    const category = named ?? (/soft|interpersonal/i.test(group.name || '') ? 'Soft Skills' : undefined);
+    const keywords = group.keywords?.length ? group.keywords : [group.name || ''];
+    return keywords.map((keyword) => canonicalSkill(keyword)).filter((skill): skill is Skill => skill !== null)
+      .map((skill) => (category ? { ...skill, category } : skill));
+  });
+  const educationEnd = fromIsoDate(education.endDate);
+
+  return {
+    name: basics.name || '',
+    email: basics.email || '',
+    phone: basics.phone || '',
+    linkedin: findProfile(basics.profiles, 'linkedin'),
+    github: findProfile(basics.profiles, 'github'),
+    location: [basics.location?.city, basics.location?.region].filter(Boolean).join(', ') || basics.location?.address || '',
+    college: education.institution || '',
+    degree: [education.studyType, education.area].filter(Boolean).join(' in '),
+    educationStart: fromIsoDate(education.startDate),
+    educationEnd,
+    currentStudent: !educationEnd || educationEnd >= currentMonth(),
+    cgpa: education.score || '',
+    skills: dedupeSkills(skills),
+    experience: (json.work || []).map((job) => ({
+      company: job.name || '',
+      title: job.position || '',
+      location: job.location || '',
+      startDate: fromIsoDate(job.startDate),
+      endDate: fromIsoDate(job.endDate),
+      bullets: [...(job.summary ? [job.summary] : []), ...(job.highlights || [])],
+    })),
+    projects: (json.projects || []).map((project) => ({
+      id: newEntryId(),
+      title: project.name || '',
+      description: joinLines(project.description, project.highlights),
+      technologies: (project.keywords || []).join(', '),
+      startDate: fromIsoDate(project.startDate),
+      endDate: fromIsoDate(project.endDate),
+    })),
+    activities: (json.volunteer || []).map((activity) => ({
+      id: newEntryId(),
+      role: [activity.position, activity.organization].filter(Boolean).join(', '),
+      achievements: joinLines(activity.summary, activity.highlights),
+      startDate: fromIsoDate(activity.startDate),
+      endDate: fromIsoDate(activity.endDate),
+    })),
+    certifications: (json.certificates || []).map((cert) => ({
+      name: cert.name || '',
+      issuer: cert.issuer || '',
+      date: fromIsoDate(cert.date),
+      credentialUrl: cert.url || '',
+    })),
+    honors: (json.awards || []).map((award) => ({
+      title: award.title || '',
+      issuer: award.awarder || '',
+      date: fromIsoDate(award.date),
+      description: award.summary || '',
+    })),
+    linkedinAbout: basics.summary || undefined,
+  };
+}
+
+const toIssues = (error: z.ZodError): ImportIssue[] =>
+  error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+/**
+ * Parses a JSON Resume file, checks it has the shape we map from, and
+ * validates the mapped data with the same schema as the resume form. Invalid
+ * mapped data is still returned so it can be opened in the editor for fixing.
+ */
+export function importJsonResume(text: string): ImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { data: null, issues: [{ path: '', message: 'The file is not valid JSON.' }] };
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json) || !('basics' in json)) {
+    return { data: null, issues: [{ path: '', message: 'The file does not look like a JSON Resume (missing "basics").' }] };
+  }
+
+  const parsed = jsonResumeSchema.safeParse(json);
+  if (!parsed.success) return { data: null, issues: toIssues(parsed.error) };
+
+  const data = fromJsonResume(parsed.data);
+  const result = resumeSchema.safeParse(data);
+  if (result.success) return { data: result.data, issues: [] };
+  return { data, issues: toIssues(result.error) };
+}
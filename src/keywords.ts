@@ -0,0 +1,210 @@
+import type { ResumeData, SkillCategory } from './types';
+
+export interface SkillTerm {
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+}
+
+export interface Keyword {
+  term: string;
+  kind: 'skill' | 'term';
+  // Lowercased spellings that count as a match in resume text.
+  variants: string[];
+}
+
+export interface KeywordReport {
+  keywords: Keyword[];
+  matched: Keyword[];
+  missing: Keyword[];
+  score: number;
+}
+
+const skill = (name: string, category: SkillCategory, ...aliases: string[]): SkillTerm => ({ name, category, aliases });
+
+// Common skills recruiters list in postings, also the canonical dictionary for the
+// skills editor. In postings, short or ambiguous names (Go, R, C) are only matched
+// through unambiguous aliases.
+export const SKILL_TERMS: SkillTerm[] = [
+  skill('JavaScript', 'Languages', 'js', 'es6', 'ecmascript'),
+  skill('TypeScript', 'Languages', 'ts'),
+  skill('Python', 'Languages'),
+  skill('Java', 'Languages'),
+  skill('C++', 'Languages', 'cpp'),
+  skill('C#', 'Languages', 'csharp'),
+  skill('Go', 'Languages', 'golang'),
+  skill('Rust', 'Languages'),
+  skill('Kotlin', 'Languages'),
+  skill('Swift', 'Languages'),
+  skill('Ruby', 'Languages'),
+  skill('PHP', 'Languages'),
+  skill('Scala', 'Languages'),
+  skill('MATLAB', 'Languages'),
+  skill('SQL', 'Languages'),
+  skill('HTML', 'Languages', 'html5'),
+  skill('CSS', 'Languages', 'css3'),
+  skill('React', 'Frameworks', 'react.js', 'reactjs'),
+  skill('React Native', 'Frameworks'),
+  skill('Next.js', 'Frameworks', 'nextjs'),
+  skill('Vue', 'Frameworks', 'vue.js', 'vuejs'),
+  skill('Angular', 'Frameworks', 'angularjs'),
+  skill('Svelte', 'Frameworks'),
+  skill('Node.js', 'Frameworks', 'node', 'nodejs'),
+  skill('Express', 'Frameworks', 'express.js', 'expressjs'),
+  skill('Django', 'Frameworks'),
+  skill('Flask', 'Frameworks'),
+  skill('FastAPI', 'Frameworks'),
+  skill('Spring', 'Frameworks', 'spring boot'),
+  skill('.NET', 'Frameworks', 'dotnet', 'asp.net'),
+  skill('Ruby on Rails', 'Frameworks', 'rails'),
+  skill('GraphQL', 'Frameworks'),
+  skill('REST', 'Concepts', 'rest api', 'restful', 'rest apis'),
+  skill('Tailwind CSS', 'Frameworks', 'tailwind', 'tailwindcss'),
+  skill('Redux', 'Frameworks'),
+  skill('PostgreSQL', 'Databases', 'postgres'),
+  skill('MySQL', 'Databases'),
+  skill('MongoDB', 'Databases', 'mongo'),
+  skill('SQLite', 'Databases'),
+  skill('Redis', 'Databases'),
+  skill('Firebase', 'Databases'),
+  skill('Supabase', 'Databases'),
+  skill('DynamoDB', 'Databases'),
+  skill('Elasticsearch', 'Databases'),
+  skill('AWS', 'Cloud & DevOps', 'amazon web services'),
+  skill('Azure', 'Cloud & DevOps', 'microsoft azure'),
+  skill('GCP', 'Cloud & DevOps', 'google cloud', 'google cloud platform'),
+  skill('Docker', 'Cloud & DevOps'),
+  skill('Kubernetes', 'Cloud & DevOps', 'k8s'),
+  skill('Terraform', 'Cloud & DevOps'),
+  skill('CI/CD', 'Cloud & DevOps', 'continuous integration', 'continuous delivery'),
+  skill('GitHub Actions', 'Cloud & DevOps'),
+  skill('Jenkins', 'Cloud & DevOps'),
+  skill('Git', 'Tools'),
+  skill('Linux', 'Cloud & DevOps', 'unix'),
+  skill('Bash', 'Languages', 'shell scripting'),
+  skill('Jest', 'Frameworks'),
+  skill('Cypress', 'Frameworks'),
+  skill('Playwright', 'Frameworks'),
+  skill('Selenium', 'Frameworks'),
+  skill('Unit Testing', 'Concepts', 'unit tests', 'testing'),
+  skill('Machine Learning', 'Concepts', 'ml'),
+  skill('Deep Learning', 'Concepts'),
+  skill('Artificial Intelligence', 'Concepts', 'ai'),
+  skill('Natural Language Processing', 'Concepts', 'nlp'),
+  skill('Computer Vision', 'Concepts'),
+  skill('Data Analysis', 'Concepts', 'data analytics'),
+  skill('Data Structures', 'Concepts'),
+  skill('Algorithms', 'Concepts'),
+  skill('TensorFlow', 'Frameworks'),
+  skill('PyTorch', 'Frameworks'),
+  skill('scikit-learn', 'Frameworks', 'sklearn'),
+  skill('Pandas', 'Frameworks'),
+  skill('NumPy', 'Frameworks'),
+  skill('Tableau', 'Tools'),
+  skill('Power BI', 'Tools'),
+  skill('Excel', 'Tools', 'microsoft excel'),
+  skill('Figma', 'Tools'),
+  skill('Agile', 'Concepts', 'scrum'),
+  skill('Jira', 'Tools'),
+  skill('Microservices', 'Concepts'),
+  skill('System Design', 'Concepts'),
+  skill('Object-Oriented Programming', 'Concepts', 'oop', 'object oriented'),
+  skill('Android', 'Concepts'),
+  skill('iOS', 'Concepts'),
+  skill('Flutter', 'Frameworks'),
+  skill('Blockchain', 'Concepts'),
+  skill('Cybersecurity', 'Concepts', 'security'),
+  skill('Networking', 'Concepts'),
+  skill('Communication', 'Soft Skills', 'communication skills'),
+  skill('Teamwork', 'Soft Skills', 'collaboration', 'team player'),
+  skill('Leadership', 'Soft Skills'),
+  skill('Problem Solving', 'Soft Skills', 'problem-solving'),
+  skill('Time Management', 'Soft Skills'),
+  skill('Critical Thinking', 'Soft Skills'),
+  skill('Adaptability', 'Soft Skills'),
+  skill('Creativity', 'Soft Skills'),
+  skill('Public Speaking', 'Soft Skills', 'presentation skills'),
+  skill('Negotiation', 'Soft Skills'),
+  skill('Mentoring', 'Soft Skills', 'mentorship'),
+  skill('Project Management', 'Soft Skills'),
+];
+
+const STOPWORDS = new Set(`
+  a about above across after again against all also am an and any are as at be because been before being
+  below between both but by can could did do does doing down during each either etc every few for from
+  further had has have having he her here hers him his how however i if in into is it its itself just
+  least less like made make many may me might more most much must my no nor not now of off often on once
+  one only or other our ours out over own per plus same she should so some such than that the their them
+  then there these they this those through to too under until up upon us use used using very via was we
+  well were what when where whether which while who whom why will with within without would yet you your
+  ability able across apply applicants applicant candidate candidates company role position job team teams
+  work working experience experiences years year strong excellent good great plus preferred required
+  requirements qualifications responsibilities including include includes new knowledge skills skill
+  understanding familiarity familiar opportunity opportunities join looking seeking help build building
+  develop developing help ensure across within based related relevant equivalent degree bachelor bachelors
+  field students student intern interns internship world best day days time full part
+`.split(/\s+/).filter(Boolean));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whole-word, case-insensitive containment that also works for terms like "C++" or ".NET". */
+export const containsTerm = (text: string, term: string) =>
+  new RegExp(`(?<![a-z0-9.])${escapeRegExp(term.toLowerCase())}(?![a-z0-9])`).test(text.toLowerCase());
+
+const skillVariants = (term: SkillTerm) => {
+  // Single-letter or two-letter names are too ambiguous to match on their own.
+  const names = term.name.length > 2 ? [term.name] : [];
+  return [...names, ...term.aliases].map((variant) => variant.toLowerCase());
+};
+
+/**
+ * Pulls keywords out of a job posting: known skills from the dictionary, plus
+ * other non-trivial words the posting repeats.
+ */
+export function extractKeywords(jobDescription: string, maxTerms = 10): Keyword[] {
+  const text = jobDescription.toLowerCase();
+
+  const skills: Keyword[] = SKILL_TERMS
+    .map((term) => ({ term: term.name, kind: 'skill' as const, variants: skillVariants(term) }))
+    .filter((keyword) => keyword.variants.some((variant) => containsTerm(text, variant)));
+
+  const covered = new Set(skills.flatMap((keyword) => keyword.variants.flatMap((variant) => variant.split(/\s+/))));
+  const counts = new Map<string, number>();
+  (text.match(/[a-z][a-z+#.-]*[a-z+#]/g) || []).forEach((word) => {
+    if (word.length < 4 || STOPWORDS.has(word) || covered.has(word)) return;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  });
+
+  const terms: Keyword[] = [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxTerms)
+    .map(([word]) => ({ term: word, kind: 'term', variants: [word] }));
+
+  return [...skills, ...terms];
+}
+
+/** All resume text that keywords are matched against. */
+export function resumeText(data: ResumeData) {
+  return [
+    ...data.skills.map((skill) => skill.name),
+    data.degree,
+    data.linkedinAbout,
+    ...data.projects.flatMap((project) => [project.title, project.technologies, project.description]),
+    ...data.activities.flatMap((activity) => [activity.role, activity.achievements]),
+    ...(data.experience || []).flatMap((job) => [job.title, ...job.bullets]),
+    ...(data.certifications || []).map((cert) => cert.name),
+  ].filter(Boolean).join('\n');
+}
+
+export function matchKeywords(jobDescription: string, data: ResumeData): KeywordReport {
+  const keywords = extractKeywords(jobDescription);
+  const text = resumeText(data);
+  const isMatched = (keyword: Keyword) => keyword.variants.some((variant) => containsTerm(text, variant));
+
+  const matched = keywords.filter(isMatched);
+  const missing = keywords.filter((keyword) => !isMatched(keyword));
+  const score = keywords.length === 0 ? 0 : Math.round((matched.length / keywords.length) * 100);
+
+  return { keywords, matched, missing, score };
+}
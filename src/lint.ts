@@ -0,0 +1,373 @@
+import type { ResumeData } from './types';
+import { skillKey, technicalSkills } from './skills';
+import { isSectionVisible, printedResume } from './sections';
+import { resolveTheme } from './theme';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface Finding {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  // Field the finding refers to, e.g. "projects[1].description".
+  path?: string;
+}
+
+export interface RuleOutcome {
+  findings: Omit<Finding, 'ruleId' | 'severity'>[];
+  // Share of the rule's weight earned, from 0 to 1.
+  credit: number;
+}
+
+// What is known about the resume as laid out, beyond its data.
+export interface LintContext {
+  // Pages the preview laid the resume out on; unknown until it has been measured.
+  pageCount?: number;
+}
+
+export interface LintRule {
+  id: string;
+  severity: Severity;
+  weight: number;
+  description: string;
+  check(data: ResumeData, summary: string, context: LintContext): RuleOutcome;
+}
+
+export interface LintResult {
+  score: number;
+  findings: Finding[];
+}
+
+interface TextTarget {
+  path: string;
+  label: string;
+  text: string;
+}
+
+const ACTION_VERBS = new Set(`
+  accelerated achieved analyzed architected automated boosted built championed coached collaborated
+  completed conducted configured coordinated created cut debugged decreased defined delivered deployed
+  designed developed directed drove eliminated engineered enhanced established evaluated expanded
+  facilitated founded generated grew guided halved hosted identified implemented improved increased
+  initiated integrated introduced launched led maintained managed mentored migrated modernized monitored
+  optimized orchestrated organized overhauled piloted planned presented prototyped published raised
+  redesigned reduced refactored researched resolved restructured revamped scaled secured shipped
+  simplified spearheaded streamlined strengthened supervised taught tested trained transformed tripled
+  doubled tutored upgraded validated volunteered won wrote
+`.split(/\s+/).filter(Boolean));
+
+const PASSIVE_VOICE = /\b(was|were|been|being|is|are|got)\s+(\w+ed|built|done|made|given|taken|written|led|run)\b/i;
+const QUANTIFIED = /\d|\b(one|two|three|four|five|six|seven|eight|nine|ten|dozens?|hundreds?|thousands?)\b/i;
+const MAX_BULLET_WORDS = 30;
+
+const toLines = (text: string) =>
+  text.split('\n').map((line) => line.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+
+// Every bullet-like line in the resume, each addressed by the field it lives in.
+const bulletTargets = (data: ResumeData): TextTarget[] => [
+  ...(data.experience || []).flatMap((job, i) =>
+    job.bullets.filter(Boolean).map((text, j) => ({ path: `experience[${i}].bullets[${j}]`, label: job.title || `Experience ${i + 1}`, text }))
+  ),
+  ...data.projects.flatMap((project, i) =>
+    toLines(project.description).map((text) => ({ path: `projects[${i}].description`, label: project.title || `Project ${i + 1}`, text }))
+  ),
+  ...data.activities.flatMap((activity, i) =>
+    toLines(activity.achievements).map((text) => ({ path: `activities[${i}].achievements`, label: activity.role || `Activity ${i + 1}`, text }))
+  ),
+];
+
+// One target per entry, for checks that look at an entry as a whole.
+const entryTargets = (data: ResumeData): TextTarget[] => [
+  ...(data.experience || []).map((job, i) => ({ path: `experience[${i}].bullets`, label: job.title || `Experience ${i + 1}`, text: job.bullets.join('\n') })),
+  ...data.projects.map((project, i) => ({ path: `projects[${i}].description`, label: project.title || `Project ${i + 1}`, text: project.description })),
+  ...data.activities.map((activity, i) => ({ path: `activities[${i}].achievements`, label: activity.role || `Activity ${i + 1}`, text: activity.achievements })),
+];
+
+const dedupeByPath = <T extends { path?: string }>(findings: T[]) =>
+  findings.filter((finding, i) => findings.findIndex((other) => other.path === finding.path) === i);
+
+/** Credit for per-item rules: the share of items that passed. */
+const perItem = <T>(items: T[], failing: T[]) => (items.length === 0 ? 1 : 1 - failing.length / items.length);
+
+export const contactRule: LintRule = {
+  id: 'contact-complete',
+  severity: 'error',
+  weight: 10,
+  description: 'Name, email and phone are filled in',
+  check(data) {
+    const missing = (['name', 'email', 'phone'] as const).filter((field) => !data[field]?.trim());
+    return {
+      findings: missing.map((field) => ({ path: field, message: `Add your ${field} so recruiters can reach you.` })),
+      credit: 1 - missing.length / 3,
+    };
+  },
+};
+
+export const educationRule: LintRule = {
+  id: 'education-complete',
+  severity: 'error',
+  weight: 10,
+  description: 'College and degree are filled in',
+  check(data) {
+    const missing = (['college', 'degree'] as const).filter((field) => !data[field]?.trim());
+    return {
+      findings: missing.map((field) => ({ path: field, message: `Add your ${field} details.` })),
+      credit: 1 - missing.length / 2,
+    };
+  },
+};
+
+export const skillsCountRule: LintRule = {
+  id: 'skills-count',
+  severity: 'warning',
+  weight: 10,
+  description: 'At least 8 technical skills',
+  check(data) {
+    const count = technicalSkills(data.skills).length;
+    if (count >= 8) return { findings: [], credit: 1 };
+    const message = count >= 5
+      ? 'Try adding at least 8 technical skills for better visibility.'
+      : 'Your skills section is a bit thin. Aim for 5-8 key skills.';
+    return { findings: [{ path: 'skills', message }], credit: count >= 5 ? 0.5 : count >= 3 ? 0.25 : 0 };
+  },
+};
+
+export const duplicateSkillsRule: LintRule = {
+  id: 'duplicate-skills',
+  severity: 'warning',
+  weight: 5,
+  description: 'No skill is listed twice',
+  check(data) {
+    const seen = new Map<string, string>();
+    const duplicates: string[] = [];
+    data.skills.forEach((skill) => {
+      const key = skillKey(skill.name);
+      if (seen.has(key)) duplicates.push(`${seen.get(key)} / ${skill.name}`);
+      else seen.set(key, skill.name);
+    });
+    const findings = duplicates.length > 0
+      ? [{ path: 'skills', message: `Remove duplicated skills: ${duplicates.join(', ')}.` }]
+      : [];
+    return { findings, credit: findings.length === 0 ? 1 : 0 };
+  },
+};
+
+export const projectsRule: LintRule = {
+  id: 'projects-present',
+  severity: 'warning',
+  weight: 10,
+  description: 'At least one project',
+  check(data) {
+    if (data.projects.length > 0) return { findings: [], credit: 1 };
+    const message = isSectionVisible(data, 'projects')
+      ? 'Add at least one project to demonstrate practical experience.'
+      : 'Your Projects section is hidden. Show it to demonstrate practical experience.';
+    return { findings: [{ path: 'projects', message }], credit: 0 };
+  },
+};
+
+export const actionVerbRule: LintRule = {
+  id: 'action-verbs',
+  severity: 'warning',
+  weight: 10,
+  description: 'Bullets start with a strong action verb',
+  check(data) {
+    const bullets = bulletTargets(data);
+    const failing = bullets.filter((bullet) => !ACTION_VERBS.has(bullet.text.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '')));
+    return {
+      findings: dedupeByPath(failing.map((bullet) => ({
+        path: bullet.path,
+        message: `"${bullet.label}": start with an action verb such as Built, Led or Improved instead of "${bullet.text.split(/\s+/)[0]}".`,
+      }))),
+      credit: perItem(bullets, failing),
+    };
+  },
+};
+
+export const quantifiedRule: LintRule = {
+  id: 'quantified-results',
+  severity: 'warning',
+  weight: 10,
+  description: 'Each entry mentions a measurable result',
+  check(data) {
+    const entries = entryTargets(data);
+    const failing = entries.filter((entry) => !QUANTIFIED.test(entry.text));
+    return {
+      findings: failing.map((entry) => ({
+        path: entry.path,
+        message: `"${entry.label}": quantify the impact (users, %, time saved, team size).`,
+      })),
+      credit: perItem(entries, failing),
+    };
+  },
+};
+
+export const passiveVoiceRule: LintRule = {
+  id: 'passive-voice',
+  severity: 'info',
+  weight: 5,
+  description: 'Bullets use active voice',
+  check(data) {
+    const bullets = bulletTargets(data);
+    const failing = bullets.filter((bullet) => PASSIVE_VOICE.test(bullet.text));
+    return {
+      findings: dedupeByPath(failing.map((bullet) => ({
+        path: bullet.path,
+        message: `"${bullet.label}": rewrite "${bullet.text.match(PASSIVE_VOICE)?.[0]}" in the active voice.`,
+      }))),
+      credit: perItem(bullets, failing),
+    };
+  },
+};
+
+export const longBulletRule: LintRule = {
+  id: 'long-bullets',
+  severity: 'warning',
+  weight: 5,
+  description: `Bullets stay under ${MAX_BULLET_WORDS} words`,
+  check(data) {
+    const bullets = bulletTargets(data);
+    const failing = bullets.filter((bullet) => bullet.text.split(/\s+/).length > MAX_BULLET_WORDS);
+    return {
+      findings: dedupeByPath(failing.map((bullet) => ({
+        path: bullet.path,
+        message: `"${bullet.label}": split long bullets (${bullet.text.split(/\s+/).length} words) into shorter points.`,
+      }))),
+      credit: perItem(bullets, failing),
+    };
+  },
+};
+
+export const linksRule: LintRule = {
+  id: 'missing-links',
+  severity: 'warning',
+  weight: 5,
+  description: 'LinkedIn and GitHub profiles are linked',
+  check(data) {
+    const missing = (['linkedin', 'github'] as const).filter((field) => !data[field]?.trim());
+    const labels = { linkedin: 'LinkedIn', github: 'GitHub' };
+    return {
+      findings: missing.map((field) => ({ path: field, message: `Add your ${labels[field]} URL so recruiters can see your work.` })),
+      credit: 1 - missing.length / 2,
+    };
+  },
+};
+
+export const experienceRule: LintRule = {
+  id: 'experience-detail',
+  severity: 'info',
+  weight: 5,
+  description: 'Work experience is listed with at least two bullets per role',
+  check(data) {
+    const jobs = data.experience || [];
+    if (jobs.length === 0) {
+      return { findings: [{ path: 'experience', message: 'Add internships, part-time jobs or freelance work under Work Experience.' }], credit: 0 };
+    }
+    const failing = jobs.map((job, i) => ({ job, i })).filter(({ job }) => job.bullets.filter(Boolean).length < 2);
+    return {
+      findings: failing.map(({ job, i }) => ({
+        path: `experience[${i}].bullets`,
+        message: `"${job.title || `Experience ${i + 1}`}": describe the role with at least two bullet points.`,
+      })),
+      credit: perItem(jobs, failing.map(({ job }) => job)),
+    };
+  },
+};
+
+export const activitiesRule: LintRule = {
+  id: 'activities-present',
+  severity: 'info',
+  weight: 5,
+  description: 'Extracurricular activities are included',
+  check(data) {
+    return data.activities.length > 0
+      ? { findings: [], credit: 1 }
+      : { findings: [{ path: 'activities', message: 'Include extracurricular activities or club roles.' }], credit: 0 };
+  },
+};
+
+export const credentialsRule: LintRule = {
+  id: 'credentials-present',
+  severity: 'info',
+  weight: 5,
+  description: 'Certifications or awards are listed',
+  check(data) {
+    return (data.certifications || []).length > 0 || (data.honors || []).length > 0
+      ? { findings: [], credit: 1 }
+      : { findings: [{ path: 'certifications', message: 'List any certifications or awards to stand out.' }], credit: 0 };
+  },
+};
+
+export const summaryRule: LintRule = {
+  id: 'summary-present',
+  severity: 'warning',
+  weight: 10,
+  description: 'A professional summary is included',
+  check(data, summary) {
+    return summary.trim()
+      ? { findings: [], credit: 1 }
+      : { findings: [{ message: 'Generate an AI LinkedIn summary to boost your profile score.' }], credit: 0 };
+  },
+};
+
+export const pageLengthRule: LintRule = {
+  id: 'page-length',
+  severity: 'warning',
+  weight: 5,
+  description: 'The resume stays within its target page count',
+  check(data, summary, { pageCount }) {
+    const { targetPages } = resolveTheme(data);
+    if (pageCount === undefined || pageCount <= targetPages) return { findings: [], credit: 1 };
+    const advice = targetPages === 1 ? 'trim or hide some entries, or turn on Fit to one page' : 'trim or hide some entries';
+    return {
+      findings: [{ message: `Your resume runs to ${pageCount} pages, past your ${targetPages}-page target: ${advice}.` }],
+      credit: 0,
+    };
+  },
+};
+
+export const DEFAULT_RULES: LintRule[] = [
+  contactRule,
+  educationRule,
+  skillsCountRule,
+  duplicateSkillsRule,
+  projectsRule,
+  actionVerbRule,
+  quantifiedRule,
+  passiveVoiceRule,
+  longBulletRule,
+  linksRule,
+  experienceRule,
+  activitiesRule,
+  credentialsRule,
+  summaryRule,
+  pageLengthRule,
+];
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+/** Runs every rule and turns the weighted credit into a 0-100 score. */
+export function lintResume(data: ResumeData, summary: string, rules: LintRule[] = DEFAULT_RULES, context: LintContext = {}): LintResult {
+  let earned = 0;
+  let total = 0;
+  const findings: Finding[] = [];
+
+  rules.forEach((rule) => {
+    const outcome = rule.check(data, summary, context);
+    total += rule.weight;
+    earned += rule.weight * Math.min(1, Math.max(0, outcome.credit));
+    outcome.findings.forEach((finding) => findings.push({ ...finding, ruleId: rule.id, severity: rule.severity }));
+  });
+
+  findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  return { score: total === 0 ? 0 : Math.round((earned / total) * 100), findings };
+}
+
+/** Scores the resume as printed: content in hidden sections does not count. */
+export const calculateResumeScore = (data: ResumeData, summary: string, context: LintContext = {}) => {
+  const printed = printedResume(data, summary);
+  return lintResume(printed.data, printed.summary, DEFAULT_RULES, context);
+};
+
+/** Converts a finding path like "projects[1].description" into a form field name like "projects.1.description". */
+export const toFieldName = (path: string) => path.replace(/\[(\d+)\]/g, '.$1');
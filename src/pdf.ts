@@ -0,0 +1,529 @@
+import jsPDF from 'jspdf';
+import type { CoverLetter, CustomEntry, ResumeData, ResumeSection, ResumeTheme, TemplateId } from './types';
+import { formatEducationRange, formatMonth, formatRange, printOrder, sortByRecency } from './dates';
+import { formatSkill, formatSkillGroup, groupSkills } from './skills';
+import { filledEntries, sectionTitle, visibleSections, type BuiltInSectionId } from './sections';
+import { FIT_DENSITIES, FONT_FAMILIES, hexToRgb, resolveTheme, themeSpacing } from './theme';
+
+type RGB = [number, number, number];
+
+interface TextStyle {
+  size: number;
+  style?: 'normal' | 'bold' | 'italic';
+  color?: RGB;
+}
+
+interface ContactItem {
+  text: string;
+  url?: string;
+}
+
+interface Column {
+  x: number;
+  width: number;
+}
+
+// The resolved theme in the units the renderers work in.
+interface PageStyle {
+  margin: number;
+  lineHeight: number;
+  spacing: number;
+  font: string;
+  // Body size relative to the 10pt the layouts are designed at.
+  fontScale: number;
+  accent: RGB;
+}
+
+interface FlowOptions {
+  scale: number;
+  startY: number;
+  page: PageStyle;
+}
+
+const PT_TO_MM = 25.4 / 72;
+const BLACK: RGB = [0, 0, 0];
+const MUTED: RGB = [71, 85, 105];
+const RULE: RGB = [203, 213, 225];
+const LINK: RGB = [30, 64, 175];
+
+const stripProtocol = (url: string) => url.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+
+// Multi-line descriptions are treated as bullet lists; a single paragraph stays a paragraph.
+const toBullets = (text: string) =>
+  text.split('\n').map((line) => line.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+
+const contactItems = (data: ResumeData): ContactItem[] => {
+  const items: ContactItem[] = [];
+  if (data.email) items.push({ text: data.email, url: `mailto:${data.email}` });
+  if (data.phone) items.push({ text: data.phone, url: `tel:${data.phone.replace(/[^\d+]/g, '')}` });
+  if (data.location) items.push({ text: data.location });
+  if (data.linkedin) items.push({ text: stripProtocol(data.linkedin), url: data.linkedin });
+  if (data.github) items.push({ text: stripProtocol(data.github), url: data.github });
+  return items;
+};
+
+/**
+ * A vertical text flow confined to one column. Each flow tracks its own page and
+ * cursor, so two columns can be laid out independently and still paginate.
+ */
+function createFlow(pdf: jsPDF, column: Column, { scale, startY, page: pageStyle }: FlowOptions) {
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let page = 1;
+  let y = startY;
+
+  const size = (pt: number) => pt * scale;
+  const lineHeight = (pt: number) => size(pt) * PT_TO_MM * pageStyle.lineHeight;
+  const body: TextStyle = { size: 10 };
+
+  const applyStyle = ({ size: pt, style = 'normal', color = BLACK }: TextStyle) => {
+    pdf.setFont(pageStyle.font, style);
+    pdf.setFontSize(size(pt));
+    pdf.setTextColor(...color);
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - pageStyle.margin) {
+      page += 1;
+      if (page > pdf.getNumberOfPages()) pdf.addPage();
+      y = pageStyle.margin;
+    }
+    pdf.setPage(page);
+  };
+
+  const gap = (mm: number) => {
+    y += mm * scale * pageStyle.spacing;
+  };
+
+  const textHeight = (text: string, style: TextStyle = body, indent = 0) => {
+    applyStyle(style);
+    return pdf.splitTextToSize(text, column.width - indent).length * lineHeight(style.size);
+  };
+
+  const bulletsHeight = (bullets: string[]) => bullets.reduce((sum, bullet) => sum + textHeight(bullet, body, 5), 0);
+
+  // Height of the text as writeBody would print it.
+  const bodyHeight = (text: string) => {
+    const bullets = toBullets(text);
+    return bullets.length <= 1 ? textHeight(bullets[0] || '') : bulletsHeight(bullets);
+  };
+
+  // Starts a new page first if a block this tall would otherwise be split; longer-than-a-page blocks just flow.
+  const keepTogether = (height: number) => {
+    if (height <= pageHeight - pageStyle.margin * 2) ensureSpace(height);
+  };
+
+  const writeLines = (text: string, style: TextStyle = body, indent = 0, width = column.width - indent) => {
+    applyStyle(style);
+    const lh = lineHeight(style.size);
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    lines.forEach((line) => {
+      ensureSpace(lh);
+      applyStyle(style);
+      pdf.text(line, column.x + indent, y, { baseline: 'top' });
+      y += lh;
+    });
+  };
+
+  const writeLink = (text: string, url: string, style: TextStyle = body) => {
+    const lh = lineHeight(style.size);
+    ensureSpace(lh);
+    applyStyle({ ...style, color: LINK });
+    const line: string = pdf.splitTextToSize(text, column.width)[0];
+    pdf.text(line, column.x, y, { baseline: 'top' });
+    pdf.link(column.x, y, pdf.getTextWidth(line), lh, { url });
+    y += lh;
+  };
+
+  const writeBullets = (bullets: string[]) => {
+    bullets.forEach((bullet) => {
+      ensureSpace(lineHeight(body.size));
+      applyStyle(body);
+      pdf.text('•', column.x + 1, y, { baseline: 'top' });
+      writeLines(bullet, body, 5);
+    });
+  };
+
+  const writeBody = (text: string) => {
+    const bullets = toBullets(text);
+    if (bullets.length <= 1) {
+      writeLines(bullets[0] || '');
+      return;
+    }
+    writeBullets(bullets);
+  };
+
+  const sectionTitle = (title: string, color: RGB = BLACK) => {
+    // Keep the heading together with at least two lines of its content.
+    ensureSpace(lineHeight(11) + lineHeight(body.size) * 2 + 4);
+    gap(2);
+    applyStyle({ size: 11, style: 'bold', color });
+    pdf.text(title.toUpperCase(), column.x, y, { baseline: 'top', charSpace: 0.3 });
+    y += lineHeight(11);
+    // Black titles get a light grey rule; colored titles are underlined in their own color.
+    pdf.setDrawColor(...(color.every((channel) => channel === 0) ? RULE : color));
+    pdf.setLineWidth(0.3);
+    pdf.line(column.x, y, column.x + column.width, y);
+    gap(2);
+  };
+
+  const entryHeading = (left: string, right?: string) => {
+    ensureSpace(lineHeight(body.size) * 2);
+    const rightStyle: TextStyle = { size: 9, style: 'italic', color: MUTED };
+    let rightWidth = 0;
+    if (right) {
+      applyStyle(rightStyle);
+      rightWidth = Math.min(pdf.getTextWidth(right), column.width / 2);
+      const rightText = pdf.splitTextToSize(right, rightWidth)[0];
+      pdf.text(rightText, column.x + column.width, y, { baseline: 'top', align: 'right' });
+    }
+    writeLines(left, { size: body.size, style: 'bold' }, 0, column.width - rightWidth - (right ? 4 : 0));
+  };
+
+  const contactLine = (items: ContactItem[], align: 'left' | 'center') => {
+    const style: TextStyle = { size: 9, color: MUTED };
+    const separator = '  |  ';
+    applyStyle(style);
+    const lh = lineHeight(style.size);
+    const separatorWidth = pdf.getTextWidth(separator);
+
+    // Greedily pack items into rows that fit the column width.
+    const rows: ContactItem[][] = [[]];
+    let rowWidth = 0;
+    items.forEach((item) => {
+      const width = pdf.getTextWidth(item.text);
+      const current = rows[rows.length - 1];
+      const needed = current.length > 0 ? separatorWidth + width : width;
+      if (current.length > 0 && rowWidth + needed > column.width) {
+        rows.push([item]);
+        rowWidth = width;
+      } else {
+        current.push(item);
+        rowWidth += needed;
+      }
+    });
+
+    rows.forEach((row) => {
+      ensureSpace(lh);
+      applyStyle(style);
+      const total = row.reduce((sum, item, i) => sum + pdf.getTextWidth(item.text) + (i > 0 ? separatorWidth : 0), 0);
+      let x = align === 'center' ? column.x + (column.width - total) / 2 : column.x;
+      row.forEach((item, i) => {
+        if (i > 0) {
+          pdf.setTextColor(...MUTED);
+          pdf.text(separator, x, y, { baseline: 'top' });
+          x += separatorWidth;
+        }
+        const width = pdf.getTextWidth(item.text);
+        pdf.setTextColor(...(item.url ? LINK : MUTED));
+        pdf.text(item.text, x, y, { baseline: 'top' });
+        if (item.url) pdf.link(x, y, width, lh, { url: item.url });
+        x += width;
+      });
+      y += lh;
+    });
+  };
+
+  const name = (text: string, align: 'left' | 'center', color: RGB = BLACK) => {
+    ensureSpace(lineHeight(20));
+    applyStyle({ size: 20, style: 'bold', color });
+    const x = align === 'center' ? column.x + column.width / 2 : column.x;
+    pdf.text(text.toUpperCase(), x, y, { baseline: 'top', align });
+    y += lineHeight(20);
+  };
+
+  return {
+    get y() {
+      return y;
+    },
+    body,
+    gap,
+    lineHeight,
+    textHeight,
+    bulletsHeight,
+    bodyHeight,
+    keepTogether,
+    writeLines,
+    writeLink,
+    writeBullets,
+    writeBody,
+    sectionTitle,
+    entryHeading,
+    contactLine,
+    name,
+  };
+}
+
+type Flow = ReturnType<typeof createFlow>;
+
+// Modern prints the name in the accent color; the others keep it black.
+const HEADER_STYLES: Record<TemplateId, { align: 'left' | 'center'; accentName: boolean }> = {
+  classic: { align: 'center', accentName: false },
+  modern: { align: 'left', accentName: true },
+  compact: { align: 'left', accentName: false },
+};
+
+// Name and contact block; cover letters reuse it so they match the resume.
+const writeHeader = (flow: Flow, data: ResumeData, template: TemplateId, page: PageStyle) => {
+  const { align, accentName } = HEADER_STYLES[template] ?? HEADER_STYLES.classic;
+  flow.name(data.name || '', align, accentName ? page.accent : BLACK);
+  flow.contactLine(contactItems(data), align);
+};
+
+interface SectionStyle {
+  // Space after each entry, in mm.
+  spacing: number;
+  titleColor?: RGB;
+  titles?: Partial<Record<BuiltInSectionId, string>>;
+  // Skill groups run together on one line, as in the Compact template.
+  inlineSkills?: boolean;
+  // A sidebar column: education is stacked and each skill category gets its own heading.
+  narrow?: boolean;
+}
+
+const writeEducation = (flow: Flow, data: ResumeData, stacked = false) => {
+  if (stacked) {
+    flow.writeLines(data.college, { size: 10, style: 'bold' });
+    flow.writeLines(data.degree);
+    flow.writeLines([formatEducationRange(data), data.cgpa ? `CGPA: ${data.cgpa}` : ''].filter(Boolean).join('  |  '), { size: 9, color: MUTED });
+    return;
+  }
+  flow.entryHeading(data.college, formatEducationRange(data));
+  flow.writeLines([data.degree, data.cgpa ? `CGPA: ${data.cgpa}` : ''].filter(Boolean).join('  —  '));
+};
+
+const writeExperience = (flow: Flow, data: ResumeData, spacing: number) => {
+  sortByRecency(data.experience).forEach((job) => {
+    flow.keepTogether(flow.lineHeight(flow.body.size) + (job.location ? flow.lineHeight(9) : 0) + flow.bulletsHeight(job.bullets.filter(Boolean)));
+    flow.entryHeading([job.title, job.company].filter(Boolean).join(', '), formatRange(job.startDate, job.endDate));
+    if (job.location) flow.writeLines(job.location, { size: 9, color: MUTED });
+    flow.writeBullets(job.bullets.filter(Boolean));
+    flow.gap(spacing);
+  });
+};
+
+const writeCertifications = (flow: Flow, data: ResumeData) => {
+  data.certifications.forEach((cert) => {
+    const line = [cert.name, cert.issuer].filter(Boolean).join(' — ') + (cert.date ? ` (${formatMonth(cert.date)})` : '');
+    if (cert.credentialUrl) {
+      flow.writeLink(line, cert.credentialUrl);
+    } else {
+      flow.writeLines(line);
+    }
+  });
+  flow.gap(2);
+};
+
+const writeHonors = (flow: Flow, data: ResumeData) => {
+  data.honors.forEach((honor) => {
+    const heading = [honor.title, honor.issuer].filter(Boolean).join(' — ') + (honor.date ? ` (${formatMonth(honor.date)})` : '');
+    flow.writeLines(honor.description ? `${heading}: ${honor.description}` : heading);
+  });
+  flow.gap(2);
+};
+
+const writeProjects = (flow: Flow, data: ResumeData, spacing: number) => {
+  printOrder(data, data.projects).forEach((project) => {
+    flow.keepTogether(flow.lineHeight(flow.body.size) + flow.bodyHeight(project.description));
+    flow.entryHeading(project.title, [project.technologies, formatRange(project.startDate, project.endDate)].filter(Boolean).join(' · '));
+    flow.writeBody(project.description);
+    flow.gap(spacing);
+  });
+};
+
+const writeActivities = (flow: Flow, data: ResumeData, spacing: number) => {
+  printOrder(data, data.activities).forEach((activity) => {
+    flow.keepTogether(flow.lineHeight(flow.body.size) + flow.bodyHeight(activity.achievements));
+    flow.entryHeading(activity.role, formatRange(activity.startDate, activity.endDate));
+    flow.writeBody(activity.achievements);
+    flow.gap(spacing);
+  });
+};
+
+const writeCustomEntries = (flow: Flow, entries: CustomEntry[], spacing: number) => {
+  entries.forEach((entry) => {
+    flow.keepTogether(flow.lineHeight(flow.body.size) + (entry.description ? flow.bodyHeight(entry.description) : 0));
+    flow.entryHeading([entry.title, entry.subtitle].filter(Boolean).join(' — '), entry.date ? formatMonth(entry.date) : undefined);
+    if (entry.description) flow.writeBody(entry.description);
+    flow.gap(spacing);
+  });
+};
+
+// Whether a section has anything to print; empty sections get no heading.
+const hasContent = (section: ResumeSection, data: ResumeData, summary: string) => {
+  switch (section.id) {
+    case 'summary': return !!summary;
+    case 'education': return true;
+    case 'skills': return data.skills.length > 0;
+    case 'experience': return data.experience.length > 0;
+    case 'projects': return data.projects.length > 0;
+    case 'activities': return data.activities.length > 0;
+    case 'certifications': return data.certifications.length > 0;
+    case 'honors': return data.honors.length > 0;
+    default: return filledEntries(section).length > 0;
+  }
+};
+
+/** Writes one section of the layout under its (possibly renamed) title. */
+const writeSection = (flow: Flow, section: ResumeSection, data: ResumeData, summary: string, style: SectionStyle) => {
+  if (!hasContent(section, data, summary)) return;
+  const { spacing, titleColor } = style;
+
+  // In a sidebar each skill category gets its own heading, unless the section was renamed.
+  if (section.id === 'skills' && style.narrow && !section.title.trim()) {
+    groupSkills(data.skills).forEach((group) => {
+      flow.sectionTitle(group.category, titleColor);
+      flow.writeLines(group.skills.map(formatSkill).join('\n'));
+      flow.gap(2);
+    });
+    return;
+  }
+
+  flow.sectionTitle(sectionTitle(section, style.titles), titleColor);
+  switch (section.id) {
+    case 'summary':
+      flow.writeLines(summary);
+      flow.gap(2);
+      break;
+    case 'education':
+      writeEducation(flow, data, style.narrow);
+      flow.gap(2);
+      break;
+    case 'skills':
+      if (style.inlineSkills) flow.writeLines(groupSkills(data.skills).map(formatSkillGroup).join('  |  '));
+      else groupSkills(data.skills).forEach((group) => flow.writeLines(formatSkillGroup(group)));
+      flow.gap(2);
+      break;
+    case 'experience': writeExperience(flow, data, spacing); break;
+    case 'projects': writeProjects(flow, data, spacing); break;
+    case 'activities': writeActivities(flow, data, spacing); break;
+    case 'certifications': writeCertifications(flow, data); break;
+    case 'honors': writeHonors(flow, data); break;
+    default: writeCustomEntries(flow, filledEntries(section), spacing);
+  }
+};
+
+const renderClassic = (pdf: jsPDF, data: ResumeData, summary: string, page: PageStyle) => {
+  const width = pdf.internal.pageSize.getWidth() - page.margin * 2;
+  const flow = createFlow(pdf, { x: page.margin, width }, { scale: page.fontScale, startY: page.margin, page });
+
+  writeHeader(flow, data, 'classic', page);
+  flow.gap(4);
+
+  visibleSections(data).forEach((section) => writeSection(flow, section, data, summary, { spacing: 2, titleColor: page.accent }));
+};
+
+const renderCompact = (pdf: jsPDF, data: ResumeData, summary: string, page: PageStyle) => {
+  const width = pdf.internal.pageSize.getWidth() - page.margin * 2;
+  const flow = createFlow(pdf, { x: page.margin, width }, { scale: page.fontScale, startY: page.margin, page });
+
+  writeHeader(flow, data, 'compact', page);
+  flow.gap(2);
+
+  const style: SectionStyle = { spacing: 1, titleColor: page.accent, inlineSkills: true, titles: { summary: 'Summary' } };
+  visibleSections(data).forEach((section) => writeSection(flow, section, data, summary, style));
+};
+
+// Mirrors the Modern template: short reference sections in the sidebar, the rest in the main column.
+const MODERN_SIDEBAR: string[] = ['education', 'skills', 'certifications', 'honors'];
+
+const renderModern = (pdf: jsPDF, data: ResumeData, summary: string, page: PageStyle) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - page.margin * 2;
+  const sidebarWidth = 55;
+  const gutter = 8;
+
+  const header = createFlow(pdf, { x: page.margin, width: contentWidth }, { scale: page.fontScale, startY: page.margin, page });
+  writeHeader(header, data, 'modern', page);
+  header.gap(4);
+
+  const columnTop = header.y;
+  const options: FlowOptions = { scale: page.fontScale * 0.95, startY: columnTop, page };
+  const sidebar = createFlow(pdf, { x: page.margin, width: sidebarWidth }, options);
+  const main = createFlow(pdf, { x: page.margin + sidebarWidth + gutter, width: contentWidth - sidebarWidth - gutter }, options);
+
+  const style: SectionStyle = { spacing: 2, titleColor: page.accent, titles: { summary: 'Profile', honors: 'Honors' } };
+  visibleSections(data).forEach((section) => {
+    if (MODERN_SIDEBAR.includes(section.id)) writeSection(sidebar, section, data, summary, { ...style, narrow: true });
+    else writeSection(main, section, data, summary, style);
+  });
+
+  // Either column may run onto later pages, so every page gets the divider; only the first starts below the header.
+  const dividerX = page.margin + sidebarWidth + gutter / 2;
+  for (let number = 1; number <= pdf.getNumberOfPages(); number++) {
+    pdf.setPage(number);
+    pdf.setDrawColor(...RULE);
+    pdf.setLineWidth(0.2);
+    pdf.line(dividerX, number === 1 ? columnTop : page.margin, dividerX, pdf.internal.pageSize.getHeight() - page.margin);
+  }
+};
+
+const RENDERERS: Record<TemplateId, (pdf: jsPDF, data: ResumeData, summary: string, page: PageStyle) => void> = {
+  classic: renderClassic,
+  modern: renderModern,
+  compact: renderCompact,
+};
+
+const pageStyle = (theme: ResumeTheme, density = 1): PageStyle => {
+  const { margin, lineSpacing, spacing } = themeSpacing(theme, density);
+  return {
+    margin,
+    lineHeight: lineSpacing,
+    spacing,
+    font: FONT_FAMILIES[theme.fontFamily].pdf,
+    fontScale: theme.fontSize / 10,
+    accent: hexToRgb(theme.accent),
+  };
+};
+
+const newDocument = (theme: ResumeTheme) => new jsPDF('p', 'mm', theme.pageSize);
+
+/**
+ * Lays out a resume as real (selectable, ATS-readable) text with jsPDF,
+ * breaking onto new pages between entries and embedding contact links. Page size,
+ * fonts and spacing follow the resume's theme; with "fit to one page" on,
+ * spacing is tightened until the resume fits on a single page (or can't be
+ * tightened any further).
+ */
+export function renderResumePdf(data: ResumeData, summary: string, template: TemplateId = data.template ?? 'classic'): jsPDF {
+  const theme = resolveTheme({ template, theme: data.theme });
+  const render = (density: number) => {
+    const pdf = newDocument(theme);
+    (RENDERERS[template] ?? renderClassic)(pdf, data, summary, pageStyle(theme, density));
+    return pdf;
+  };
+  if (!theme.fitToPage) return render(1);
+
+  let pdf = render(FIT_DENSITIES[0]);
+  for (const density of FIT_DENSITIES.slice(1)) {
+    if (pdf.getNumberOfPages() === 1) break;
+    pdf = render(density);
+  }
+  return pdf;
+}
+
+/** Renders a cover letter under the same header, page size and font as the resume. */
+export function renderCoverLetterPdf(data: ResumeData, letter: CoverLetter, template: TemplateId = data.template ?? 'classic'): jsPDF {
+  const theme = resolveTheme({ template, theme: data.theme });
+  const page = pageStyle(theme);
+  const pdf = newDocument(theme);
+  const x = page.margin + 5;
+  const flow = createFlow(pdf, { x, width: pdf.internal.pageSize.getWidth() - x * 2 }, { scale: page.fontScale * 1.05, startY: page.margin, page });
+
+  writeHeader(flow, data, template, page);
+  flow.gap(10);
+  flow.writeLines(new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }));
+  flow.gap(4);
+  flow.writeLines(letter.company);
+  flow.writeLines(`Re: ${letter.role}`, { size: 10, style: 'bold' });
+  flow.gap(6);
+
+  [letter.greeting, letter.hook, ...letter.evidence, letter.closing].filter((text) => text.trim()).forEach((paragraph) => {
+    flow.writeLines(paragraph);
+    flow.gap(4);
+  });
+
+  flow.writeLines('Sincerely,');
+  flow.gap(2);
+  flow.writeLines(data.name || '', { size: 10, style: 'bold' });
+  return pdf;
+}
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeResume } from './schema';
+import { diffResumes } from './resumeDiff';
+import type { Project } from './types';
+
+const project = (id: string, title: string): Project => ({ id, title, description: '', technologies: '', startDate: '', endDate: '' });
+const resume = (projects: Project[]) => normalizeResume({ name: 'Asha Rao', projects });
+
+describe('diffResumes', () => {
+  it('reports a renamed entry as changed rather than removed and added', () => {
+    const changes = diffResumes(
+      resume([project('p1', 'Campus Market'), project('p2', 'Weather Bot')]),
+      resume([project('p2', 'Weather Bot'), project('p1', 'Campus Marketplace')]),
+    );
+    assert.deepEqual(changes, [
+      { kind: 'changed', label: 'Projects › Campus Marketplace › Title', before: 'Campus Market', after: 'Campus Marketplace' },
+    ]);
+  });
+
+  it('matches entries saved without an id by their title', () => {
+    const before = resume([project('p1', 'Campus Market'), project('p2', 'Weather Bot')]);
+    before.projects.forEach((entry) => (entry.id = ''));
+    const changes = diffResumes(before, resume([project('p3', 'Weather Bot'), project('p4', 'Campus Market')]));
+    assert.deepEqual(changes, []);
+  });
+
+  it('lists entries that were added or removed', () => {
+    const changes = diffResumes(
+      resume([project('p1', 'Campus Market'), project('p2', 'Weather Bot')]),
+      resume([project('p2', 'Weather Bot'), project('p3', 'Portfolio'), project('p4', 'Chess Engine')]),
+    );
+    assert.deepEqual(changes.map((change) => [change.kind, change.label]), [
+      ['added', 'Projects › Portfolio'],
+      ['added', 'Projects › Chess Engine'],
+      ['removed', 'Projects › Campus Market'],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { formatSkillGroup, groupSkills } from './skills';
+import { resolveSections, sectionTitle } from './sections';
+import type { ResumeData, ResumeSection, ResumeVariant, Skill } from './types';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  kind: ChangeKind;
+  // Human-readable location, e.g. "Projects › Portfolio site › Description".
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+type ListKey = 'experience' | 'projects' | 'activities' | 'certifications' | 'honors';
+type ListEntry<K extends ListKey> = NonNullable<ResumeData[K]>[number];
+
+interface ListSpec<T> {
+  label: string;
+  // Names the entry in change labels, and pairs up entries that have no id.
+  title: (entry: T) => string;
+  // Identifies the same entry across versions even when it was renamed or reordered.
+  id?: (entry: T) => string | undefined;
+  fields: { [F in keyof T]?: string };
+}
+
+const SCALAR_FIELDS: [keyof ResumeData, string][] = [
+  ['name', 'Full Name'],
+  ['email', 'Email'],
+  ['phone', 'Phone'],
+  ['location', 'Location'],
+  ['linkedin', 'LinkedIn'],
+  ['github', 'GitHub'],
+  ['college', 'College'],
+  ['degree', 'Degree'],
+  ['cgpa', 'CGPA'],
+  ['educationStart', 'Education Start'],
+  ['educationEnd', 'Graduation'],
+  ['currentStudent', 'Current Student'],
+  ['skills', 'Skills'],
+  ['linkedinAbout', 'Summary'],
+  ['template', 'Template'],
+  ['sections', 'Sections'],
+  ['theme', 'Page & Type'],
+  ['variants', 'Variants'],
+];
+
+// Top-level fields whose values are not plain text.
+const FORMATTERS: { [K in keyof ResumeData]?: (value: ResumeData[K]) => string } = {
+  skills: (skills: Skill[] = []) => groupSkills(skills).map(formatSkillGroup).join('\n'),
+  // The layout in order, with custom entries listed under their section.
+  sections: (sections: ResumeSection[] = []) => resolveSections(sections).flatMap((section) => [
+    `${sectionTitle(section)}${section.hidden ? ' (hidden)' : ''}`,
+    ...(section.entries ?? []).map((entry) => `  - ${[entry.title, entry.subtitle, entry.date, entry.description].filter(Boolean).join(' · ')}`),
+  ]).join('\n'),
+  // Only settings changed from the template's defaults are stored.
+  theme: (theme = {}) => Object.entries(theme).map(([setting, value]) => `${setting}: ${value}`).join('\n'),
+  variants: (variants: ResumeVariant[] = []) => variants.map((variant) =>
+    `${variant.name}: ${variant.projects.length} projects, ${variant.activities.length} activities, ${variant.skills.length} skills${variant.summary.trim() ? ', own summary' : ''}`
+  ).join('\n'),
+};
+
+const DATE_FIELDS = { startDate: 'Start', endDate: 'End' };
+
+const LISTS: { [K in ListKey]: ListSpec<ListEntry<K>> } = {
+  experience: {
+    label: 'Experience',
+    title: (job) => `${job.title} at ${job.company}`,
+    fields: { company: 'Company', title: 'Title', location: 'Location', ...DATE_FIELDS, bullets: 'Bullets' },
+  },
+  projects: {
+    label: 'Projects',
+    title: (project) => project.title,
+    id: (project) => project.id,
+    fields: { title: 'Title', technologies: 'Technologies', ...DATE_FIELDS, description: 'Description' },
+  },
+  activities: {
+    label: 'Activities',
+    title: (activity) => activity.role,
+    id: (activity) => activity.id,
+    fields: { role: 'Role', ...DATE_FIELDS, achievements: 'Achievements' },
+  },
+  certifications: {
+    label: 'Certifications',
+    title: (cert) => cert.name,
+    fields: { name: 'Name', issuer: 'Issuer', date: 'Date', credentialUrl: 'Credential URL' },
+  },
+  honors: {
+    label: 'Honors',
+    title: (honor) => honor.title,
+    fields: { title: 'Award', issuer: 'Awarded By', date: 'Date', description: 'Details' },
+  },
+};
+
+const show = (value: unknown) => {
+  if (Array.isArray(value)) return value.filter(Boolean).join('\n');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value == null ? '' : String(value);
+};
+
+const fieldsOf = <T>(spec: ListSpec<T>) => Object.entries(spec.fields) as [keyof T, string][];
+
+const describe = <T>(spec: ListSpec<T>, entry: T) =>
+  fieldsOf(spec).map(([field, label]) => `${label}: ${show(entry[field])}`).filter((line) => !line.endsWith(': ')).join('\n');
+
+// Entries are matched by id; legacy entries saved before they had one fall back to their title.
+const sameEntry = <T>(spec: ListSpec<T>, a: T, b: T) => {
+  const [idA, idB] = [spec.id?.(a), spec.id?.(b)];
+  return idA && idB ? idA === idB : spec.title(a) === spec.title(b);
+};
+
+function diffList<T>(spec: ListSpec<T>, before: T[], after: T[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const unmatched = [...before];
+
+  after.forEach((entry, index) => {
+    // Prefer the same entry; otherwise pair with the one in the same position.
+    let match = unmatched.findIndex((candidate) => sameEntry(spec, candidate, entry));
+    if (match === -1 && unmatched.includes(before[index]) && !after.some((other) => sameEntry(spec, other, before[index]))) {
+      match = unmatched.indexOf(before[index]);
+    }
+    const title = spec.title(entry).trim() || `#${index + 1}`;
+
+    if (match === -1) {
+      changes.push({ kind: 'added', label: `${spec.label} › ${title}`, after: describe(spec, entry) });
+      return;
+    }
+    const [previous] = unmatched.splice(match, 1);
+    fieldsOf(spec).forEach(([field, label]) => {
+      const was = show(previous[field]);
+      const now = show(entry[field]);
+      if (was !== now) changes.push({ kind: 'changed', label: `${spec.label} › ${title} › ${label}`, before: was, after: now });
+    });
+  });
+
+  unmatched.forEach((entry, i) => {
+    changes.push({ kind: 'removed', label: `${spec.label} › ${spec.title(entry).trim() || `#${i + 1}`}`, before: describe(spec, entry) });
+  });
+  return changes;
+}
+
+const diffListField = <K extends ListKey>(key: K, before: ResumeData, after: ResumeData) =>
+  diffList<ListEntry<K>>(LISTS[key], before[key] ?? [], after[key] ?? []);
+
+const formatField = <K extends keyof ResumeData>(key: K, value: ResumeData[K]) => {
+  const format = FORMATTERS[key];
+  return format ? format(value) : show(value);
+};
+
+/** Field-level changes from one resume version to another, including added and removed entries. */
+export function diffResumes(before: ResumeData, after: ResumeData): FieldChange[] {
+  const scalars = SCALAR_FIELDS.flatMap(([key, label]): FieldChange[] => {
+    const was = formatField(key, before[key]);
+    const now = formatField(key, after[key]);
+    if (was === now) return [];
+    if (!was) return [{ kind: 'added', label, after: now }];
+    if (!now) return [{ kind: 'removed', label, before: was }];
+    return [{ kind: 'changed', label, before: was, after: now }];
+  });
+
+  const lists = (Object.keys(LISTS) as ListKey[]).flatMap((key) => diffListField(key, before, after));
+
+  return [...scalars, ...lists];
+}
@@ -0,0 +1,130 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ClipboardPaste, FileUp, Sparkles } from 'lucide-react';
+import { parseResumeText } from './textImport';
+import { extractPdfText } from './pdfText';
+import { enhanceImport } from './api';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const ImportResumePage = () => {
+  const navigate = useNavigate();
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [useAi, setUseAi] = useState(false);
+  const [busy, setBusy] = useState<"" | "reading" | "parsing">("");
+  const [error, setError] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Text never leaves the browser unless the AI option is ticked.
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy("reading");
+    setError("");
+    try {
+      const extracted = isPdf(file) ? await extractPdfText(file) : await file.text();
+      if (!extracted.trim()) {
+        setError("No text found in this file. Scanned PDFs are images; paste the text instead.");
+        return;
+      }
+      setText(extracted);
+      setFileName(file.name);
+    } catch (readError) {
+      console.error("Error reading resume file:", readError);
+      setError("Could not read this file. Try pasting the text instead.");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const parse = async () => {
+    setBusy("parsing");
+    setError("");
+    const { data, lowConfidence } = parseResumeText(text);
+    let draft = data;
+    if (useAi) {
+      try {
+        draft = (await enhanceImport(text, data)).data;
+      } catch (aiError) {
+        // The rule-based result is still usable, so carry on with it.
+        console.error("Error structuring resume with AI:", aiError);
+      }
+    }
+    setBusy("");
+    navigate('/form', { state: { draft, review: lowConfidence } });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto">
+        <button onClick={() => navigate('/')} className="mb-8 flex items-center text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Home
+        </button>
+
+        <div className="bg-slate-900 shadow-2xl rounded-3xl overflow-hidden border border-slate-800">
+          <div className="bg-indigo-600 px-8 py-10 text-white">
+            <h2 className="text-3xl font-bold">Import Existing Resume</h2>
+            <p className="text-indigo-100 mt-2">Paste your resume or upload a PDF. We'll fill in the form and highlight anything worth double-checking.</p>
+          </div>
+
+          <div className="p-8 space-y-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                disabled={!!busy}
+                className="px-4 py-2 bg-slate-800 text-white rounded-xl text-sm font-bold hover:bg-slate-700 transition-all flex items-center disabled:opacity-50"
+              >
+                <FileUp className="w-4 h-4 mr-2" />
+                {busy === "reading" ? "Reading..." : "Upload PDF or text file"}
+              </button>
+              {fileName && <span className="text-xs text-slate-500">Read from {fileName}</span>}
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/pdf,.pdf,text/plain,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  readFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1 flex items-center">
+                <ClipboardPaste className="w-4 h-4 mr-2" /> Resume text
+              </label>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-80"
+                placeholder="Paste the full text of your resume here..."
+              />
+            </div>
+
+            <label className="flex items-start text-sm text-slate-400">
+              <input type="checkbox" checked={useAi} onChange={(e) => setUseAi(e.target.checked)} className="mr-2 mt-1 accent-indigo-500" />
+              <span>
+                <span className="text-white font-medium flex items-center"><Sparkles className="w-3 h-3 mr-1 text-indigo-400" /> Use AI to improve parsing</span>
+                Sends the text to the AI provider to fix sections the built-in parser misreads.
+              </span>
+            </label>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button
+              type="button"
+              onClick={parse}
+              disabled={!!busy || !text.trim()}
+              className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-500/20 disabled:opacity-50"
+            >
+              {busy === "parsing" ? "Parsing..." : "Fill in the form"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
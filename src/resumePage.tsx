@@ -0,0 +1,156 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { getTemplate } from './templates';
+import { FIT_DENSITIES, MM_TO_PX, PAGE_SIZES, resolveTheme, themeSpacing, themeVars } from './theme';
+import { cn } from './utils';
+import type { ResumeData } from './types';
+
+interface ResumePageProps {
+  data: ResumeData;
+  summary: string;
+  id?: string;
+  className?: string;
+  // A fixed zoom, or 'fit' to scale the page down to the width of its container.
+  zoom?: number | 'fit';
+  // Called with the number of pages after each layout.
+  onPaginate?: (pages: number) => void;
+}
+
+// The part of the content (in px from the top margin) shown on one page.
+interface PageSlice {
+  start: number;
+  end: number;
+}
+
+// Tracks the zoom that fits a page of the given width (in px) into the element.
+const useFitZoom = (pageWidth: number, enabled: boolean) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!enabled || !element) return;
+    const observer = new ResizeObserver(() => setZoom(Math.min(1, element.clientWidth / pageWidth)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [pageWidth, enabled]);
+
+  return { containerRef, zoom };
+};
+
+/**
+ * Splits the rendered template into page-sized slices. A break never falls
+ * inside an entry marked data-keep (unless it is taller than a page), and a
+ * section title is not left at the bottom of a page without its content.
+ */
+function paginate(root: HTMLElement, page: { width: number; height: number }, margin: number): PageSlice[] {
+  const rootRect = root.getBoundingClientRect();
+  // Measured against the known page width, so the preview's zoom doesn't matter.
+  const scale = rootRect.width / page.width || 1;
+  const contentHeight = rootRect.height / scale - margin * 2;
+  const available = page.height - margin * 2;
+
+  const blocks = Array.from(root.querySelectorAll<HTMLElement>('[data-keep], .resume-section-title')).map((node) => {
+    const rect = node.getBoundingClientRect();
+    const top = (rect.top - rootRect.top) / scale - margin;
+    const height = rect.height / scale;
+    // A title's block reaches past it, as if it held the first lines that follow.
+    return { top, bottom: top + (node.classList.contains('resume-section-title') ? height * 3 : height) };
+  });
+
+  const slices: PageSlice[] = [];
+  let start = 0;
+  while (start < contentHeight - 1) {
+    let end = start + available;
+    const cutBy = (at: number) => blocks.find((block) => block.top > start && block.top < at && block.bottom > at);
+    if (end < contentHeight) {
+      // Pull the break up above anything it would cut through; each step only moves it up.
+      for (let cut = cutBy(end); cut; cut = cutBy(end)) end = cut.top;
+    }
+    slices.push({ start, end: Math.min(end, contentHeight) });
+    start = end;
+  }
+  return slices.length > 0 ? slices : [{ start: 0, end: 0 }];
+}
+
+/**
+ * The resume laid out on pages of its theme's size, font and spacing, with a
+ * frame per page so breaks show where they will fall in print. With "fit to
+ * one page" on, spacing is tightened step by step until the content fits.
+ */
+export const ResumePage = ({ data, summary, id, className, zoom, onPaginate }: ResumePageProps) => {
+  const theme = resolveTheme(data);
+  const page = PAGE_SIZES[theme.pageSize];
+  const pagePx = { width: page.width * MM_TO_PX, height: page.height * MM_TO_PX };
+  const Template = getTemplate(data.template).component;
+  const measureRef = useRef<HTMLDivElement>(null);
+  const [layout, setLayout] = useState<{ density: number; pages: PageSlice[] }>({ density: 1, pages: [] });
+  const fit = useFitZoom(pagePx.width, zoom === 'fit');
+  // The measuring copy only exists in the browser, so server-rendered pages hold the resume once.
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => setMounted(true), []);
+
+  useLayoutEffect(() => {
+    const element = measureRef.current;
+    const root = element?.firstElementChild as HTMLElement | null;
+    if (!element || !root) return;
+    const layoutAt = (density: number) => {
+      Object.entries(themeVars(theme, density)).forEach(([name, value]) => element.style.setProperty(name, value));
+      return paginate(root, pagePx, themeSpacing(theme, density).margin * MM_TO_PX);
+    };
+
+    let density = FIT_DENSITIES[0];
+    let pages = layoutAt(density);
+    if (theme.fitToPage) {
+      for (const candidate of FIT_DENSITIES.slice(1)) {
+        if (pages.length <= 1) break;
+        density = candidate;
+        pages = layoutAt(candidate);
+      }
+    }
+    setLayout({ density, pages });
+    onPaginate?.(pages.length);
+  }, [mounted, data, summary, JSON.stringify(theme)]);
+
+  const vars = themeVars(theme, layout.density);
+  const frameStyle = { ...vars, width: `${page.width}mm`, height: `${page.height}mm`, paddingTop: 'var(--resume-margin)' };
+  const total = layout.pages.length;
+
+  return (
+    <div ref={zoom === 'fit' ? fit.containerRef : undefined} id={id} className={zoom === 'fit' ? "w-full" : undefined}>
+      <div className="relative" style={{ zoom: zoom === 'fit' ? fit.zoom : zoom, width: `${page.width}mm` }}>
+        {/* The whole resume as one flow, measured to find the page breaks. */}
+        {mounted && (
+          <div ref={measureRef} aria-hidden className="resume-container absolute top-0 left-0 invisible pointer-events-none" style={{ ...vars, width: `${page.width}mm` }}>
+            <Template data={data} summary={summary} />
+          </div>
+        )}
+
+        {total === 0 ? (
+          // Until the first measurement (and when rendered on the server) the resume is one long sheet.
+          <div className={cn("bg-white resume-container", className)} style={{ ...vars, width: `${page.width}mm`, minHeight: `${page.height}mm` }}>
+            <Template data={data} summary={summary} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {layout.pages.map((slice, index) => (
+              <div key={index}>
+                {total > 1 && (
+                  <div className={cn("text-xs mb-1 text-right", index + 1 > theme.targetPages ? "text-yellow-400" : "text-slate-500")}>
+                    Page {index + 1} of {total}{index + 1 > theme.targetPages && ` — past your ${theme.targetPages}-page target`}
+                  </div>
+                )}
+                <div className={cn("bg-white resume-container overflow-hidden", index + 1 > theme.targetPages && "ring-2 ring-yellow-400", className)} style={frameStyle}>
+                  <div className="overflow-hidden" style={{ height: slice.end - slice.start }}>
+                    <div style={{ marginTop: `calc(-1 * var(--resume-margin) - ${slice.start}px)` }}>
+                      <Template data={data} summary={summary} />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
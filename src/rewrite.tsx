@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { streamBulletRewrite } from './api';
+import { entryText } from './entries';
+import { diffWords } from './diff';
+import { cn } from './utils';
+import type { BulletSection, ResumeData } from './types';
+
+// Models sometimes add bullet characters despite the prompt; entries store one plain line per bullet.
+const toBulletText = (text: string) =>
+  text.split('\n').map((line) => line.replace(/^\s*(?:[-•*]|\d+[.)])\s*/, '').trim()).filter(Boolean).join('\n');
+
+interface BulletRewriteProps {
+  data: ResumeData;
+  section: BulletSection;
+  index: number;
+  onAccept: (text: string) => void;
+  onClose: () => void;
+}
+
+/** Streams an AI rewrite of one entry and lets the user review, edit, accept or reject it. */
+export const BulletRewrite = ({ data, section, index, onAccept, onClose }: BulletRewriteProps) => {
+  const original = entryText(data, section, index) || '';
+  const [suggestion, setSuggestion] = useState("");
+  const [streaming, setStreaming] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState("");
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setSuggestion("");
+    setStreaming(true);
+    setEditing(false);
+    setError("");
+    streamBulletRewrite(data, section, index, setSuggestion, controller.signal)
+      .then((text) => setSuggestion(toBulletText(text)))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Error rewriting entry:", err);
+        setError("Could not rewrite this entry. Try again later.");
+      })
+      .finally(() => setStreaming(false));
+    return () => controller.abort();
+  }, [attempt]);
+
+  return (
+    <div className="mt-3 p-4 rounded-xl bg-slate-900 border border-indigo-500/30 space-y-3">
+      <p className="text-xs font-bold text-indigo-400 flex items-center">
+        <Sparkles className="w-3 h-3 mr-1" />
+        {streaming ? "Rewriting..." : "Suggested bullets"}
+      </p>
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : editing ? (
+        <textarea
+          value={suggestion}
+          onChange={(e) => setSuggestion(e.target.value)}
+          className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-32"
+        />
+      ) : streaming ? (
+        <p className="text-sm text-slate-200 whitespace-pre-line">{suggestion}</p>
+      ) : (
+        <p className="text-sm whitespace-pre-line">
+          {diffWords(original, suggestion).map((part, i) => (
+            <span
+              key={i}
+              className={cn(
+                part.kind === 'added' && "bg-green-500/10 text-green-300",
+                part.kind === 'removed' && "bg-red-500/10 text-red-400 line-through",
+                part.kind === 'equal' && "text-slate-300"
+              )}
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      )}
+
+      {!streaming && (
+        <div className="flex gap-3">
+          {!error && (
+            <>
+              <button type="button" onClick={() => onAccept(toBulletText(suggestion))} disabled={!suggestion.trim()} className="text-xs font-bold text-indigo-400 hover:underline disabled:opacity-50">
+                Accept
+              </button>
+              <button type="button" onClick={() => setEditing(!editing)} className="text-xs text-slate-400 hover:text-white">
+                {editing ? "Show changes" : "Edit"}
+              </button>
+            </>
+          )}
+          <button type="button" onClick={() => setAttempt(attempt + 1)} className="text-xs text-slate-400 hover:text-white">
+            Try again
+          </button>
+          <button type="button" onClick={onClose} className="text-xs text-slate-500 hover:text-white">
+            Reject
+          </button>
+        </div>
+      )}
+      {streaming && (
+        <button type="button" onClick={onClose} className="text-xs text-slate-500 hover:text-white">
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCHEMA_VERSION, migrateResume, normalizeResume, parseResume, resumeFormSchema, type ValidationIssue } from './schema';
+
+describe('migrateResume', () => {
+  it('upgrades unversioned documents through every step', () => {
+    const migrated = migrateResume({ year: '2020', technicalSkills: 'TypeScript, React' });
+    assert.equal(migrated.schemaVersion, SCHEMA_VERSION);
+    assert.equal(migrated.educationEnd, '2020-05');
+    assert.deepEqual(migrated.skills?.map((skill) => skill.name), ['TypeScript', 'React']);
+  });
+
+  it('treats zero, negative and fractional versions as unversioned', () => {
+    for (const schemaVersion of [0, -3, 1.5]) {
+      const migrated = migrateResume({ schemaVersion, projects: [{ title: 'Site' }] });
+      assert.equal(migrated.schemaVersion, SCHEMA_VERSION);
+      assert.ok(migrated.projects?.[0].id);
+    }
+  });
+
+  it('leaves documents from a newer version alone', () => {
+    assert.equal(migrateResume({ schemaVersion: SCHEMA_VERSION + 1 }).schemaVersion, SCHEMA_VERSION + 1);
+  });
+});
+
+describe('parseResume', () => {
+  it('reports validation issues instead of throwing for out-of-range versions', () => {
+    const { data, issues }: { data: unknown; issues: ValidationIssue[] } = parseResume({ schemaVersion: 0 });
+    assert.equal(data, null);
+    assert.ok(issues.some((issue) => issue.path === 'name'));
+  });
+
+  it('reports malformed documents instead of throwing', () => {
+    assert.equal(parseResume({ skills: 'TypeScript', experience: 5 }).issues[0].message, 'Resume data is malformed');
+  });
+
+    it('rejects documents saved by a newer version', () => {
+    assert.equal(parseResume({ schemaVersion: SCHEMA_VERSION + 1 }).issues[0].path, 'schemaVersion');
+  });
+
+  it('normalizes a document with a zero version', () => {
+    assert.equal(normalizeResume({ schemaVersion: 0 }).schemaVersion, SCHEMA_VERSION);
+  });
+});
+
+describe('date-relative rules', () => {
+  const graduated = { currentStudent: true, educationStart: '2015-09', educationEnd: '2019-05' };
+  const pastGraduation = (issue: { message: string }) => /can't be in the past/.test(issue.message);
+
+  it('keeps stored documents saveable after the graduation month passes', () => {
+    const { issues }: { issues: ValidationIssue[] } = parseResume(graduated);
+    assert.ok(!issues.some(pastGraduation));
+  });
+
+  it('still flags a past graduation for a current student in the editor', () => {
+    const result = resumeFormSchema.safeParse(normalizeResume(graduated));
+    assert.ok(!result.success && result.error.issues.some(pastGraduation));
+  });
+});
@@ -0,0 +1,383 @@
+import * as z from 'zod';
+import { currentMonth } from './dates';
+import { isBuiltInSection, resolveSections } from './sections';
+import { SKILL_CATEGORIES, SKILL_LEVELS, canonicalSkill, dedupeSkills, isSkillCategory, isSkillLevel, isSoftSkill, skillsFromText } from './skills';
+import type { CoverLetter, FontFamily, PageSize, ResumeTheme, SummaryAudience, SummaryGeneration, SummaryLength, SummaryOptions, SummaryTone, TemplateId } from './types';
+
+// The one definition of a resume document. The form, the API and the database
+// all validate against these schemas, and the ResumeData type is inferred from them.
+
+/** Bump when the stored shape changes, and add a step to MIGRATIONS that upgrades older documents. */
+export const SCHEMA_VERSION = 5;
+
+export const TEMPLATE_IDS = ['classic', 'modern', 'compact'] as const satisfies readonly TemplateId[];
+const PAGE_SIZES = ['a4', 'letter'] as const satisfies readonly PageSize[];
+const FONT_FAMILIES = ['sans', 'serif', 'mono'] as const satisfies readonly FontFamily[];
+const SUMMARY_TONES = ['formal', 'enthusiastic', 'concise'] as const satisfies readonly SummaryTone[];
+const SUMMARY_AUDIENCES = ['internship', 'research', 'full-time'] as const satisfies readonly SummaryAudience[];
+const SUMMARY_LENGTHS = ['short', 'medium', 'long'] as const satisfies readonly SummaryLength[];
+
+/** A short random id for entries that variants refer to. */
+export const newEntryId = () => Math.random().toString(36).slice(2, 10);
+
+const monthSchema = z.string().regex(/^\d{4}-\d{2}$/, "Use the month picker (YYYY-MM)");
+const optionalMonthSchema = monthSchema.or(z.string().length(0));
+
+type DatedEntry = { startDate?: string; endDate?: string };
+
+// Flags any entry whose end month comes before its start month.
+const checkRanges = (entries: DatedEntry[], section: string, ctx: z.RefinementCtx) => {
+  entries.forEach((entry, index) => {
+    if (entry.startDate && entry.endDate && entry.endDate < entry.startDate) {
+      ctx.addIssue({ code: "custom", path: [section, index, "endDate"], message: "End date must be after the start date" });
+    }
+  });
+};
+
+export const skillSchema = z.object({
+  name: z.string().trim().min(1, "Skill name is required"),
+  category: z.enum(SKILL_CATEGORIES),
+  level: z.enum(SKILL_LEVELS).optional(),
+});
+
+export const experienceSchema = z.object({
+  company: z.string().min(2, "Company is required"),
+  title: z.string().min(2, "Job title is required"),
+  location: z.string(),
+  startDate: monthSchema,
+  endDate: optionalMonthSchema,
+  bullets: z.array(z.string()).transform((lines) => lines.map((line) => line.trim()).filter(Boolean)),
+});
+
+export const projectSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(2, "Project title is required"),
+  description: z.string().min(10, "Description is required"),
+  technologies: z.string().min(2, "Technologies are required"),
+  startDate: optionalMonthSchema,
+  endDate: optionalMonthSchema,
+});
+
+export const activitySchema = z.object({
+  id: z.string().min(1),
+  role: z.string().min(2, "Role is required"),
+  achievements: z.string().min(5, "Achievements are required"),
+  startDate: optionalMonthSchema,
+  endDate: optionalMonthSchema,
+});
+
+export const certificationSchema = z.object({
+  name: z.string().min(2, "Certification name is required"),
+  issuer: z.string().min(2, "Issuer is required"),
+  date: optionalMonthSchema,
+  credentialUrl: z.string().url("Invalid credential URL").or(z.string().length(0)),
+});
+
+export const honorSchema = z.object({
+  title: z.string().min(2, "Award title is required"),
+  issuer: z.string(),
+  date: optionalMonthSchema,
+  description: z.string(),
+});
+
+export const customEntrySchema = z.object({
+  title: z.string().min(2, "Entry title is required"),
+  subtitle: z.string(),
+  date: optionalMonthSchema,
+  description: z.string(),
+});
+
+// One slot in the resume's layout. Built-in sections only carry display settings;
+// custom sections (any other id) also carry their own entries.
+export const sectionSchema = z.object({
+  id: z.string().min(1),
+  // Empty means the template's default title.
+  title: z.string().max(60, "Keep section titles under 60 characters"),
+  hidden: z.boolean(),
+  entries: z.array(customEntrySchema).optional(),
+});
+
+export const summaryOptionsSchema = z.object({
+  tone: z.enum(SUMMARY_TONES),
+  audience: z.enum(SUMMARY_AUDIENCES),
+  length: z.enum(SUMMARY_LENGTHS),
+}) satisfies z.ZodType<SummaryOptions>;
+
+const summaryGenerationSchema = z.object({
+  createdAt: z.string(),
+  options: summaryOptionsSchema,
+  variants: z.array(z.string()),
+}) satisfies z.ZodType<SummaryGeneration>;
+
+const coverLetterSchema = z.object({
+  company: z.string(),
+  role: z.string(),
+  jobDescription: z.string(),
+  greeting: z.string(),
+  hook: z.string(),
+  evidence: z.array(z.string()),
+  closing: z.string(),
+}) satisfies z.ZodType<CoverLetter>;
+
+// Every setting is optional; unset ones fall back to the template's defaults.
+export const themeSchema = z.object({
+  pageSize: z.enum(PAGE_SIZES),
+  margin: z.number().min(8, "Margins can't be under 8mm").max(30, "Margins can't be over 30mm"),
+  fontFamily: z.enum(FONT_FAMILIES),
+  fontSize: z.number().min(8, "Font size can't be under 8pt").max(13, "Font size can't be over 13pt"),
+  accent: z.string().regex(/^#[0-9a-f]{6}$/i, "Use a hex color like #4f46e5"),
+  lineSpacing: z.number().min(1, "Line spacing can't be under 1").max(2, "Line spacing can't be over 2"),
+  fitToPage: z.boolean(),
+  targetPages: z.number().int().min(1, "Aim for at least one page").max(3, "Aim for three pages at most"),
+}).partial() satisfies z.ZodType<Partial<ResumeTheme>>;
+
+// A named selection from the master resume. Projects and activities are referenced
+// by id and skills by name, so edits to the master show up in every variant.
+export const variantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Give the variant a name").max(60, "Keep variant names under 60 characters"),
+  projects: z.array(z.string()),
+  activities: z.array(z.string()),
+  skills: z.array(z.string()),
+  // Empty means the master's summary.
+  summary: z.string(),
+  // Unset means the master's template, theme or layout.
+  template: z.enum(TEMPLATE_IDS).optional(),
+  theme: themeSchema.optional(),
+  sections: z.array(sectionSchema).optional(),
+});
+
+export const resumeSchema = z.object({
+  schemaVersion: z.number().int().optional(),
+  name: z.string().min(2, "Name is required"),
+  email: z.string().email("Invalid email"),
+  phone: z.string().min(10, "Invalid phone number"),
+  linkedin: z.string().url("Invalid LinkedIn URL").or(z.string().length(0)),
+  github: z.string().url("Invalid GitHub URL").or(z.string().length(0)),
+  location: z.string().min(2, "Location is required"),
+  college: z.string().min(2, "College name is required"),
+  degree: z.string().min(2, "Degree is required"),
+  educationStart: monthSchema,
+  educationEnd: monthSchema,
+  currentStudent: z.boolean(),
+  cgpa: z.string().optional(),
+  skills: z.array(skillSchema)
+    .refine((skills) => skills.some((skill) => !isSoftSkill(skill)), "Technical skills are required")
+    .refine((skills) => skills.some(isSoftSkill), "Soft skills are required"),
+  experience: z.array(experienceSchema),
+  projects: z.array(projectSchema),
+  activities: z.array(activitySchema),
+  certifications: z.array(certificationSchema),
+  honors: z.array(honorSchema),
+  // Edited outside the form (preview, summary studio, cover letter), so never required.
+  linkedinAbout: z.string().optional(),
+  // Previous summary generations, newest first.
+  summaryHistory: z.array(summaryGenerationSchema).optional(),
+  coverLetter: coverLetterSchema.optional(),
+  template: z.enum(TEMPLATE_IDS).optional(),
+  theme: themeSchema.optional(),
+  // Projects and activities print most recent first unless arranged by hand.
+  entryOrder: z.enum(['recency', 'manual']).optional(),
+  // Named variants built from this resume, which acts as the master profile.
+  variants: z.array(variantSchema).optional(),
+  // Section order, visibility and titles, plus custom sections.
+  sections: z.array(sectionSchema).optional(),
+}).superRefine((data, ctx) => {
+  if (data.educationStart && data.educationEnd && data.educationEnd < data.educationStart) {
+    ctx.addIssue({ code: "custom", path: ["educationEnd"], message: "Graduation must be after the start date" });
+  }
+  checkRanges(data.experience, "experience", ctx);
+  checkRanges(data.projects, "projects", ctx);
+  checkRanges(data.activities, "activities", ctx);
+  (data.sections ?? []).forEach((section, index) => {
+    if (!isBuiltInSection(section.id) && !section.title.trim()) {
+      ctx.addIssue({ code: "custom", path: ["sections", index, "title"], message: "Give the section a title" });
+    }
+  });
+});
+
+/**
+ * The editor's rules: the document rules plus checks relative to today. Stored
+ * resumes are only held to resumeSchema, so they don't start failing to save
+ * once a date passes.
+ */
+export const resumeFormSchema = resumeSchema.superRefine((data, ctx) => {
+  if (data.currentStudent && data.educationEnd && data.educationEnd < currentMonth()) {
+    ctx.addIssue({ code: "custom", path: ["educationEnd"], message: "Expected graduation can't be in the past for a current student" });
+  }
+});
+
+export type ResumeData = z.output<typeof resumeSchema>;
+export type Skill = z.output<typeof skillSchema>;
+export type Experience = z.output<typeof experienceSchema>;
+export type Project = z.output<typeof projectSchema>;
+export type Activity = z.output<typeof activitySchema>;
+export type Certification = z.output<typeof certificationSchema>;
+export type Honor = z.output<typeof honorSchema>;
+export type CustomEntry = z.output<typeof customEntrySchema>;
+export type ResumeSection = z.output<typeof sectionSchema>;
+export type ResumeVariant = z.output<typeof variantSchema>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Migrates and validates an untrusted resume document with the same rules as the
+ * form. Used by the API before anything is stored.
+ */
+export function parseResume(raw: unknown): { data: ResumeData; issues: [] } | { data: null; issues: ValidationIssue[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { data: null, issues: [{ path: '', message: "Resume must be an object" }] };
+  }
+  const version = (raw as { schemaVersion?: unknown }).schemaVersion;
+  if (typeof version === 'number' && version > SCHEMA_VERSION) {
+    return { data: null, issues: [{ path: 'schemaVersion', message: "This resume was saved by a newer version of the app. Reload the page and try again." }] };
+  }
+  let normalized: ResumeData;
+  try {
+    normalized = normalizeResume(raw);
+  } catch {
+    return { data: null, issues: [{ path: '', message: "Resume data is malformed" }] };
+  }
+  const result = resumeSchema.safeParse(normalized);
+  if (!result.success) {
+    return { data: null, issues: result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })) };
+  }
+  return { data: result.data, issues: [] };
+}
+
+type PartialResume = { [K in keyof ResumeData]?: ResumeData[K] extends (infer T)[] ? Partial<T>[] : ResumeData[K] };
+
+// Fields that older documents carried and later versions replaced.
+type LegacyResume = PartialResume & { year?: string; technicalSkills?: string; softSkills?: string };
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const withIds = <T extends { id?: string }>(entries: T[] | undefined) =>
+  entries?.map((entry) => ({ ...entry, id: text(entry?.id) || newEntryId() }));
+
+/**
+ * Each step upgrades a document from the previous version. Documents saved
+ * before versioning carry no schemaVersion and run every step, so each step
+ * only touches documents that still have the old shape.
+ */
+const MIGRATIONS: Record<number, (doc: LegacyResume) => LegacyResume> = {
+  // v2: the free-text graduation year became an expected-graduation month (May of that year).
+  2: ({ year, ...doc }) => {
+    const legacyYear = /^\d{4}$/.test(year?.trim() ?? '') ? year!.trim() : '';
+    if (!legacyYear) return doc;
+    return {
+      ...doc,
+      educationEnd: doc.educationEnd ?? `${legacyYear}-05`,
+      currentStudent: doc.currentStudent ?? `${legacyYear}-05` >= currentMonth(),
+    };
+  },
+  // v3: comma-separated technical and soft skills became structured skills.
+  3: ({ technicalSkills, softSkills, ...doc }) => {
+    if (Array.isArray(doc.skills)) return doc;
+    return { ...doc, skills: dedupeSkills([...skillsFromText(text(technicalSkills)), ...skillsFromText(text(softSkills), 'Soft Skills')]) };
+  },
+  // v4: section order, visibility and titles became per-resume settings; the old fixed order is the default.
+  4: (doc) => ({ ...doc, sections: resolveSections(doc.sections) }),
+  // v5: projects and activities got ids, so variants can refer to them.
+  5: (doc) => ({ ...doc, projects: withIds(doc.projects), activities: withIds(doc.activities) }),
+};
+
+/** Brings a stored document of any earlier version up to SCHEMA_VERSION. */
+export function migrateResume(doc: LegacyResume): PartialResume {
+  // Versions start at 1; anything lower is treated like an unversioned document.
+  const from = Number.isInteger(doc.schemaVersion) ? Math.max(1, doc.schemaVersion!) : 1;
+  let migrated = doc;
+  for (let version = from + 1; version <= SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return { ...migrated, schemaVersion: Math.max(from, SCHEMA_VERSION) };
+}
+
+function toSkills(skills: Partial<Skill>[] | undefined): Skill[] {
+  return (skills ?? []).flatMap((skill) => {
+    if (typeof skill?.name !== 'string') return [];
+    const category = isSkillCategory(skill.category) ? skill.category : canonicalSkill(skill.name)?.category ?? 'Other';
+    return [{ name: skill.name, category, ...(isSkillLevel(skill.level) ? { level: skill.level } : {}) }];
+  });
+}
+
+/**
+ * Migrates older documents and fills every field the templates rely on, so
+ * partially typed form values and resumes saved before a section existed can
+ * always be rendered.
+ */
+export function normalizeResume(raw: LegacyResume): ResumeData {
+  const data = migrateResume(raw);
+  return {
+    ...data,
+    name: text(data.name),
+    email: text(data.email),
+    phone: text(data.phone),
+    linkedin: text(data.linkedin),
+    github: text(data.github),
+    location: text(data.location),
+    college: text(data.college),
+    degree: text(data.degree),
+    cgpa: text(data.cgpa),
+    skills: toSkills(data.skills),
+    educationStart: text(data.educationStart),
+    educationEnd: text(data.educationEnd),
+    currentStudent: data.currentStudent ?? true,
+    experience: (data.experience ?? []).map((job) => ({
+      ...job,
+      company: text(job?.company),
+      title: text(job?.title),
+      location: text(job?.location),
+      startDate: text(job?.startDate),
+      endDate: text(job?.endDate),
+      bullets: (job?.bullets ?? []).filter((bullet): bullet is string => typeof bullet === 'string'),
+    })),
+    projects: (data.projects ?? []).map((project) => ({
+      ...project,
+      id: text(project?.id) || newEntryId(),
+      title: text(project?.title),
+      description: text(project?.description),
+      technologies: text(project?.technologies),
+      startDate: text(project?.startDate),
+      endDate: text(project?.endDate),
+    })),
+    activities: (data.activities ?? []).map((activity) => ({
+      ...activity,
+      id: text(activity?.id) || newEntryId(),
+      role: text(activity?.role),
+      achievements: text(activity?.achievements),
+      startDate: text(activity?.startDate),
+      endDate: text(activity?.endDate),
+    })),
+    certifications: (data.certifications ?? []).map((cert) => ({
+      ...cert,
+      name: text(cert?.name),
+      issuer: text(cert?.issuer),
+      date: text(cert?.date),
+      credentialUrl: text(cert?.credentialUrl),
+    })),
+    honors: (data.honors ?? []).map((honor) => ({
+      ...honor,
+      title: text(honor?.title),
+      issuer: text(honor?.issuer),
+      date: text(honor?.date),
+      description: text(honor?.description),
+    })),
+    sections: resolveSections(data.sections),
+    summaryHistory: (data.summaryHistory ?? []).filter(
+      (generation): generation is SummaryGeneration => typeof generation?.createdAt === 'string' && Array.isArray(generation.variants)
+    ),
+    variants: (data.variants ?? []).flatMap((variant) => typeof variant?.id === 'string' ? [{
+      ...variant,
+      id: variant.id,
+      name: text(variant.name),
+      projects: variant.projects ?? [],
+      activities: variant.activities ?? [],
+      skills: variant.skills ?? [],
+      summary: text(variant.summary),
+    }] : []),
+  };
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Eye, EyeOff, GripVertical, Plus, Rows3 } from 'lucide-react';
+import { useFieldArray, type Control, type FieldErrors, type FieldPath, type UseFormRegisterReturn } from 'react-hook-form';
+import { SECTION_TITLES, emptyCustomEntry, isBuiltInSection, newCustomSection, resolveSections, sectionTitle } from './sections';
+import { cn } from './utils';
+import type { ResumeData, ResumeSection } from './types';
+
+const move = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Titles are saved when the input is left, not on every keystroke.
+const TitleInput = ({ section, onRename }: { section: ResumeSection; onRename: (title: string) => void }) => {
+  const [title, setTitle] = useState(section.title);
+  const custom = !isBuiltInSection(section.id);
+
+  const commit = () => {
+    const next = title.trim();
+    // Custom sections have no default title to fall back to.
+    if (custom && !next) {
+      setTitle(section.title);
+      return;
+    }
+    if (next !== section.title) onRename(next);
+  };
+
+  return (
+    <input
+      value={title}
+      onChange={(e) => setTitle(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      maxLength={60}
+      placeholder={isBuiltInSection(section.id) ? SECTION_TITLES[section.id] : 'Section title'}
+      aria-label="Section title"
+      className={cn(
+        "flex-1 min-w-0 bg-transparent text-sm outline-none rounded px-1 focus:bg-slate-800 placeholder:text-slate-300",
+        section.hidden ? "text-slate-500 line-through placeholder:text-slate-500" : "text-white"
+      )}
+    />
+  );
+};
+
+/**
+ * Preview-page controls for the order, visibility and titles of a resume's
+ * sections. Rows can be dragged, or moved with the arrow buttons.
+ * `formSections` is the editor's copy when it is laid out differently (a variant's layout).
+ */
+export const SectionLayoutPanel = ({ resumeId, sections, formSections = sections, onChange }: { resumeId: string; sections?: ResumeSection[]; formSections?: ResumeSection[]; onChange: (sections: ResumeSection[]) => void }) => {
+  const layout = resolveSections(sections);
+  const formIndex = (id: string) => resolveSections(formSections).findIndex((section) => section.id === id);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+
+  const update = (index: number, changes: Partial<ResumeSection>) =>
+    onChange(layout.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  const addSection = () => {
+    if (!newTitle.trim()) return;
+    // Entries are filled in from the editor, so the section starts empty.
+    onChange([...layout, { ...newCustomSection(newTitle.trim()), entries: [] }]);
+    setNewTitle("");
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
+      <h3 className="text-xl font-bold mb-4 text-white flex items-center">
+        <Rows3 className="w-5 h-5 mr-2 text-indigo-400" /> Sections
+      </h3>
+      <ul className="space-y-1">
+        {layout.map((section, index) => (
+          <li
+            key={section.id}
+            draggable
+            onDragStart={() => setDragging(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragging !== null && dragging !== index) onChange(move(layout, dragging, index));
+              setDragging(null);
+            }}
+            onDragEnd={() => setDragging(null)}
+            className={cn(
+              "flex items-center gap-1 px-2 py-1.5 rounded-xl border transition-colors",
+              dragging === index ? "border-indigo-500 bg-indigo-500/10" : "border-slate-800 hover:border-slate-700"
+            )}
+          >
+            <GripVertical className="w-4 h-4 text-slate-600 cursor-grab shrink-0" />
+            <TitleInput section={section} onRename={(title) => update(index, { title })} />
+            {!isBuiltInSection(section.id) && (
+              <Link to={`/form/${resumeId}?focus=${encodeURIComponent(`sections.${formIndex(section.id)}.title`)}`} className="text-xs text-indigo-400 hover:text-indigo-300 shrink-0">
+                Edit
+              </Link>
+            )}
+            <button type="button" disabled={index === 0} onClick={() => onChange(move(layout, index, index - 1))} className="p-1 text-slate-500 enabled:hover:text-white disabled:opacity-30" aria-label="Move up">
+              <ArrowUp className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" disabled={index === layout.length - 1} onClick={() => onChange(move(layout, index, index + 1))} className="p-1 text-slate-500 enabled:hover:text-white disabled:opacity-30" aria-label="Move down">
+              <ArrowDown className="w-3.5 h-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => update(index, { hidden: !section.hidden })}
+              className="p-1 text-slate-500 hover:text-white"
+              aria-label={section.hidden ? `Show ${sectionTitle(section)}` : `Hide ${sectionTitle(section)}`}
+            >
+              {section.hidden ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 mt-4">
+        <input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addSection()}
+          maxLength={60}
+          placeholder="New section, e.g. Publications"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="button" onClick={addSection} disabled={!newTitle.trim()} className="px-3 py-2 rounded-xl bg-slate-800 text-indigo-400 hover:bg-slate-700 disabled:opacity-50" aria-label="Add section">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface CustomSectionFieldsProps {
+  control: Control<ResumeData>;
+  errors: FieldErrors<ResumeData>;
+  registerField: (name: FieldPath<ResumeData>) => UseFormRegisterReturn;
+}
+
+const inputClass = "w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+
+const CustomSectionCard = ({ index, control, errors, registerField, onRemove }: CustomSectionFieldsProps & { index: number; onRemove: () => void }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: `sections.${index}.entries` });
+  const sectionErrors = errors.sections?.[index];
+
+  return (
+    <div className="p-6 rounded-2xl border border-slate-800 bg-slate-800/50 relative space-y-4">
+      <button type="button" onClick={onRemove} className="absolute top-4 right-4 text-slate-500 hover:text-red-400">
+        Remove Section
+      </button>
+      <div className="pr-32">
+        <label className="block text-sm font-medium text-slate-400 mb-1">Section Title</label>
+        <input {...registerField(`sections.${index}.title`)} className={inputClass} placeholder="Publications" />
+        {sectionErrors?.title && <p className="text-red-400 text-xs mt-1">{sectionErrors.title.message}</p>}
+      </div>
+      {fields.map((field, entryIndex) => (
+        <div key={field.id} className="p-4 rounded-xl border border-slate-700/60 relative">
+          <button type="button" onClick={() => remove(entryIndex)} className="absolute top-3 right-3 text-xs text-slate-500 hover:text-red-400">
+            Remove
+          </button>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Title</label>
+              <input {...registerField(`sections.${index}.entries.${entryIndex}.title`)} className={inputClass} placeholder="Paper, language or item" />
+              {sectionErrors?.entries?.[entryIndex]?.title && <p className="text-red-400 text-xs mt-1">{sectionErrors.entries[entryIndex].title.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Subtitle</label>
+              <input {...registerField(`sections.${index}.entries.${entryIndex}.subtitle`)} className={inputClass} placeholder="Venue, level or organization" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Date (optional)</label>
+              <input type="month" {...registerField(`sections.${index}.entries.${entryIndex}.date`)} className={inputClass} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-400 mb-1">Description (one bullet per line)</label>
+              <textarea {...registerField(`sections.${index}.entries.${entryIndex}.description`)} className={`${inputClass} h-20`} />
+            </div>
+          </div>
+        </div>
+      ))}
+      <button type="button" onClick={() => append(emptyCustomEntry())} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+        <Plus className="w-4 h-4 mr-1" /> Add Entry
+      </button>
+    </div>
+  );
+};
+
+/** Editor fields for the resume's custom sections; built-in sections in the layout are skipped. */
+export const CustomSectionFields = ({ control, errors, registerField, number }: CustomSectionFieldsProps & { number: number }) => {
+  // The layout's own ids identify sections, so field array keys go elsewhere.
+  const { fields, append, remove } = useFieldArray({ control, name: 'sections', keyName: 'fieldKey' });
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 flex items-center justify-center mr-3 text-sm">{number}</span>
+          Custom Sections
+        </h3>
+        <button type="button" onClick={() => append(newCustomSection())} className="text-indigo-400 hover:text-indigo-300 font-medium flex items-center text-sm">
+          <Plus className="w-4 h-4 mr-1" /> Add Section
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">Publications, languages, volunteering — anything the other sections don't cover. Reorder, rename or hide sections from the preview.</p>
+      <div className="space-y-8">
+        {fields.map((field, index) => !isBuiltInSection(field.id) && (
+          <div key={field.fieldKey}>
+            <CustomSectionCard index={index} control={control} errors={errors} registerField={registerField} onRemove={() => remove(index)} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
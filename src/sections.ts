@@ -0,0 +1,80 @@
+import type { CustomEntry, ResumeData, ResumeSection } from './types';
+
+// The built-in sections in their default order. Anything else in a resume's
+// layout is a custom section with its own entries.
+export const BUILT_IN_SECTIONS = [
+  'summary', 'education', 'skills', 'experience', 'projects', 'activities', 'certifications', 'honors',
+] as const;
+
+export type BuiltInSectionId = typeof BUILT_IN_SECTIONS[number];
+
+export const SECTION_TITLES: Record<BuiltInSectionId, string> = {
+  summary: 'Professional Summary',
+  education: 'Education',
+  skills: 'Skills',
+  experience: 'Experience',
+  projects: 'Projects',
+  activities: 'Activities & Achievements',
+  certifications: 'Certifications',
+  honors: 'Honors & Awards',
+};
+
+export const isBuiltInSection = (id: string): id is BuiltInSectionId => BUILT_IN_SECTIONS.includes(id as BuiltInSectionId);
+
+export const emptyCustomEntry = (): CustomEntry => ({ title: '', subtitle: '', date: '', description: '' });
+
+export const newCustomSection = (title = ''): ResumeSection => ({
+  id: `custom-${Math.random().toString(36).slice(2, 10)}`,
+  title,
+  hidden: false,
+  entries: [emptyCustomEntry()],
+});
+
+/**
+ * A complete layout: saved sections in their saved order, then any built-in
+ * section the layout doesn't mention yet. Duplicates are dropped.
+ */
+export function resolveSections(sections: Partial<ResumeSection>[] = []): ResumeSection[] {
+  const seen = new Set<string>();
+  const resolved: ResumeSection[] = [];
+  sections.forEach((section) => {
+    if (typeof section?.id !== 'string' || !section.id || seen.has(section.id)) return;
+    seen.add(section.id);
+    const base = { id: section.id, title: typeof section.title === 'string' ? section.title : '', hidden: section.hidden === true };
+    resolved.push(isBuiltInSection(section.id) ? base : { ...base, entries: (section.entries ?? []).map((entry) => ({ ...emptyCustomEntry(), ...entry })) });
+  });
+  BUILT_IN_SECTIONS.filter((id) => !seen.has(id)).forEach((id) => resolved.push({ id, title: '', hidden: false }));
+  return resolved;
+}
+
+/** The heading a section is shown under; renamed sections win over the template's default. */
+export const sectionTitle = (section: ResumeSection, defaults: Partial<Record<BuiltInSectionId, string>> = {}) =>
+  section.title.trim() || (isBuiltInSection(section.id) ? defaults[section.id] ?? SECTION_TITLES[section.id] : 'Untitled Section');
+
+export const visibleSections = (data: ResumeData) => resolveSections(data.sections).filter((section) => !section.hidden);
+
+export const isSectionVisible = (data: ResumeData, id: BuiltInSectionId) => visibleSections(data).some((section) => section.id === id);
+
+/** Custom entries worth printing; blank rows left in the editor are skipped. */
+export const filledEntries = (section: ResumeSection) =>
+  (section.entries ?? []).filter((entry) => entry.title.trim() || entry.description.trim());
+
+/**
+ * The resume as it is printed: content of hidden sections is left out, so
+ * scoring and exports only consider what a reader will actually see.
+ */
+export function printedResume(data: ResumeData, summary: string): { data: ResumeData; summary: string } {
+  const shown = (id: BuiltInSectionId) => isSectionVisible(data, id);
+  return {
+    data: {
+      ...data,
+      skills: shown('skills') ? data.skills : [],
+      experience: shown('experience') ? data.experience : [],
+      projects: shown('projects') ? data.projects : [],
+      activities: shown('activities') ? data.activities : [],
+      certifications: shown('certifications') ? data.certifications : [],
+      honors: shown('honors') ? data.honors : [],
+    },
+    summary: shown('summary') ? summary : '',
+  };
+}
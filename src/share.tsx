@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Share2, Copy, RefreshCw } from 'lucide-react';
+import { getShareLink, updateShareLink, regenerateShareLink } from './api';
+import type { ShareLink } from './types';
+import { cn } from './utils';
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never expires' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Owner controls for the public, read-only link to a resume. */
+export const SharePanel = ({ resumeId }: { resumeId: string }) => {
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    getShareLink(resumeId)
+      .then(setLink)
+      .catch((error) => console.error("Error loading share link:", error));
+  }, [resumeId]);
+
+  const run = async (action: () => Promise<ShareLink>, done = "") => {
+    setBusy(true);
+    setMessage("");
+    try {
+      setLink(await action());
+      setMessage(done);
+    } catch (error) {
+      console.error("Error updating share link:", error);
+      setMessage("Could not update the share link.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const expiresAt = (days: number) => (days ? new Date(Date.now() + days * DAY_MS).toISOString() : null);
+  const url = link ? `${window.location.origin}/r/${link.slug}` : "";
+  const expired = !!link?.expiresAt && new Date(link.expiresAt) <= new Date();
+  const live = !!link?.enabled && !expired;
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    setMessage("Link copied");
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <Share2 className="w-5 h-5 mr-2 text-indigo-400" /> Public Link
+        </h3>
+        {link && (
+          <span className={cn("text-xs font-bold", live ? "text-green-400" : "text-slate-500")}>
+            {live ? "Live" : expired ? "Expired" : "Disabled"}
+          </span>
+        )}
+      </div>
+
+      {link && (
+        <>
+          <div className="flex items-center gap-2">
+            <input readOnly value={url} className={cn("flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-sm outline-none", live ? "text-white" : "text-slate-500 line-through")} />
+            <button onClick={copy} disabled={!live} title="Copy link" className="p-2 rounded-xl bg-slate-800 text-slate-300 hover:text-white disabled:opacity-50">
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-slate-400">
+            {link.views} {link.views === 1 ? "view" : "views"}
+            {link.expiresAt && ` · ${expired ? "expired" : "expires"} ${new Date(link.expiresAt).toLocaleDateString()}`}
+          </p>
+        </>
+      )}
+
+      <select
+        value={expiryDays}
+        onChange={(e) => setExpiryDays(Number(e.target.value))}
+        className="w-full px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm outline-none"
+      >
+        {EXPIRY_OPTIONS.map((option) => <option key={option.days} value={option.days}>{option.label}</option>)}
+      </select>
+
+      <div className="flex gap-2">
+        {live ? (
+          <button onClick={() => run(() => updateShareLink(resumeId, { enabled: false, expiresAt: link.expiresAt }), "Link disabled")} disabled={busy} className="flex-1 py-2 bg-slate-800 text-white rounded-xl text-sm font-bold hover:bg-slate-700 transition-all disabled:opacity-50">
+            Disable
+          </button>
+        ) : (
+          <button onClick={() => run(() => updateShareLink(resumeId, { enabled: true, expiresAt: expiresAt(expiryDays) }), "Link is live")} disabled={busy} className="flex-1 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-50">
+            {link ? "Enable" : "Create Link"}
+          </button>
+        )}
+        {live && (
+          <button onClick={() => run(() => updateShareLink(resumeId, { enabled: true, expiresAt: expiresAt(expiryDays) }), "Expiry updated")} disabled={busy} className="flex-1 py-2 bg-slate-800 text-white rounded-xl text-sm font-bold hover:bg-slate-700 transition-all disabled:opacity-50">
+            Set Expiry
+          </button>
+        )}
+        {link && (
+          <button onClick={() => run(() => regenerateShareLink(resumeId), "New link created; the old one no longer works")} disabled={busy} title="Replace with a new link" className="p-2 rounded-xl bg-slate-800 text-slate-300 hover:text-white disabled:opacity-50">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {message && <p className="text-xs text-slate-400">{message}</p>}
+      <p className="text-xs text-slate-500">The page always shows your latest saved resume.</p>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useState, type Ref } from 'react';
+import { X } from 'lucide-react';
+import { SKILL_TERMS } from './keywords';
+import { SKILL_CATEGORIES, SKILL_LEVELS, canonicalSkill, groupSkills, isSkillCategory, isSkillLevel, skillKey } from './skills';
+import { cn } from './utils';
+import type { Skill } from './types';
+
+interface SkillEditorProps {
+  value: Skill[];
+  onChange: (skills: Skill[]) => void;
+  onBlur: () => void;
+  inputRef: Ref<HTMLInputElement>;
+  name: string;
+  review?: boolean;
+}
+
+const LEVEL_LABELS = { beginner: 'Beginner', intermediate: 'Intermediate', advanced: 'Advanced', expert: 'Expert' };
+
+/**
+ * Tag-style skills input. Typed or pasted skills are matched against the skill
+ * dictionary, so "reactjs" becomes "React" under Frameworks and is only added once.
+ */
+export const SkillEditor = ({ value, onChange, onBlur, inputRef, name, review }: SkillEditorProps) => {
+  const skills = value || [];
+  const [draft, setDraft] = useState("");
+  const [notice, setNotice] = useState("");
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const add = (text: string) => {
+    const next = [...skills];
+    const skipped: string[] = [];
+    text.split(/[,;\n]/).forEach((item) => {
+      const skill = canonicalSkill(item);
+      if (!skill) return;
+      if (next.some((existing) => skillKey(existing.name) === skillKey(skill.name))) skipped.push(skill.name);
+      else next.push(skill);
+    });
+    setNotice(skipped.length > 0 ? `Already listed: ${skipped.join(', ')}` : "");
+    setDraft("");
+    if (next.length !== skills.length) onChange(next);
+  };
+
+  const update = (target: Skill, changes: Partial<Skill>) =>
+    onChange(skills.map((skill) => (skill === target ? { ...skill, ...changes } : skill)));
+
+  const remove = (target: Skill) => {
+    onChange(skills.filter((skill) => skill !== target));
+    setSelected(null);
+  };
+
+  const selectedSkill = skills.find((skill) => skill.name === selected);
+
+  return (
+    <div data-review={review || undefined} className="rounded-xl bg-slate-800 border border-slate-700 p-3 space-y-3">
+      {groupSkills(skills).map((group) => (
+        <div key={group.category}>
+          <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-1">{group.category}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {group.skills.map((skill) => (
+              <span
+                key={skill.name}
+                className={cn(
+                  "inline-flex items-center rounded-full border text-xs transition-colors",
+                  selected === skill.name ? "border-indigo-400 bg-indigo-500/20 text-white" : "border-slate-600 bg-slate-900 text-slate-200"
+                )}
+              >
+                <button type="button" onClick={() => setSelected(selected === skill.name ? null : skill.name)} className="pl-3 pr-1 py-1">
+                  {skill.name}
+                  {skill.level && <span className="text-slate-400"> · {LEVEL_LABELS[skill.level]}</span>}
+                </button>
+                <button type="button" onClick={() => remove(skill)} className="pr-2 py-1 text-slate-500 hover:text-red-400" aria-label={`Remove ${skill.name}`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {selectedSkill && (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-slate-900/60 text-xs">
+          <span className="font-bold text-white mr-1">{selectedSkill.name}</span>
+          <select
+            value={selectedSkill.category}
+            onChange={(e) => isSkillCategory(e.target.value) && update(selectedSkill, { category: e.target.value })}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-white"
+            aria-label="Category"
+          >
+            {SKILL_CATEGORIES.map((category) => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <select
+            value={selectedSkill.level ?? ''}
+            onChange={(e) => update(selectedSkill, { level: isSkillLevel(e.target.value) ? e.target.value : undefined })}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-white"
+            aria-label="Proficiency"
+          >
+            <option value="">No proficiency</option>
+            {SKILL_LEVELS.map((level) => <option key={level} value={level}>{LEVEL_LABELS[level]}</option>)}
+          </select>
+          <button type="button" onClick={() => setSelected(null)} className="ml-auto text-slate-400 hover:text-white">Done</button>
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        name={name}
+        value={draft}
+        list="skill-dictionary"
+        onChange={(e) => {
+          // Pasting "React, Node, SQL" adds all three at once.
+          if (/[,;\n]/.test(e.target.value)) add(e.target.value);
+          else setDraft(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            add(draft);
+          } else if (e.key === 'Backspace' && !draft && skills.length > 0) {
+            remove(skills[skills.length - 1]);
+          }
+        }}
+        onBlur={() => {
+          if (draft.trim()) add(draft);
+          onBlur();
+        }}
+        className="w-full bg-transparent text-white text-sm outline-none placeholder:text-slate-500"
+        placeholder={skills.length === 0 ? "Type a skill and press Enter, e.g. Python, React, Communication" : "Add another skill..."}
+      />
+      <datalist id="skill-dictionary">
+        {SKILL_TERMS.map((term) => <option key={term.name} value={term.name} />)}
+      </datalist>
+      {notice && <p className="text-xs text-yellow-400">{notice}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { SKILL_TERMS, type SkillTerm } from './keywords';
+import type { Skill, SkillCategory, SkillLevel } from './types';
+
+// Display order of skill groups on the resume.
+export const SKILL_CATEGORIES = [
+  'Languages', 'Frameworks', 'Databases', 'Cloud & DevOps', 'Tools', 'Concepts', 'Other', 'Soft Skills',
+] as const satisfies readonly SkillCategory[];
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'] as const satisfies readonly SkillLevel[];
+
+export interface SkillGroup {
+  category: SkillCategory;
+  skills: Skill[];
+}
+
+// "React.js", "react js" and "ReactJS" all compact to the same key.
+const compact = (name: string) => name.toLowerCase().replace(/[\s.\-_]/g, '');
+
+const TERMS_BY_KEY = new Map<string, SkillTerm>(
+  SKILL_TERMS.flatMap((term) => [term.name, ...term.aliases].map((variant) => [compact(variant), term] as const))
+);
+
+export const findSkillTerm = (name: string) => TERMS_BY_KEY.get(compact(name)) ?? TERMS_BY_KEY.get(compact(name).replace(/js$/, ''));
+
+/** Identifies a skill regardless of spelling, so "ReactJS" and "React" count as one. */
+export const skillKey = (name: string) => findSkillTerm(name)?.name.toLowerCase() ?? compact(name);
+
+export const isSkillCategory = (value: unknown): value is SkillCategory => SKILL_CATEGORIES.includes(value as SkillCategory);
+export const isSkillLevel = (value: unknown): value is SkillLevel => SKILL_LEVELS.includes(value as SkillLevel);
+export const isSoftSkill = (skill: Skill) => skill.category === 'Soft Skills';
+
+/**
+ * The dictionary spelling and category of a typed skill. Unknown skills keep
+ * their spelling and get the fallback category.
+ */
+export function canonicalSkill(name: string, fallback: SkillCategory = 'Other'): Skill | null {
+  const trimmed = name.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return null;
+  const term = findSkillTerm(trimmed);
+  return term ? { name: term.name, category: term.category } : { name: trimmed, category: fallback };
+}
+
+/** Keeps the first of any skills that only differ in spelling. */
+export function dedupeSkills(skills: Skill[]): Skill[] {
+  const seen = new Set<string>();
+  return skills.filter((skill) => {
+    const key = skillKey(skill.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Parses a comma-separated skill list, the format skills were stored in before they were structured. */
+export const skillsFromText = (text: string, fallback?: SkillCategory) =>
+  dedupeSkills(text.split(',').map((item) => canonicalSkill(item, fallback)).filter((skill): skill is Skill => skill !== null));
+
+export const groupSkills = (skills: Skill[]): SkillGroup[] =>
+  SKILL_CATEGORIES
+    .map((category) => ({ category, skills: skills.filter((skill) => skill.category === category) }))
+    .filter((group) => group.skills.length > 0);
+
+export const formatSkill = (skill: Skill) =>
+  skill.level ? `${skill.name} (${skill.level[0].toUpperCase()}${skill.level.slice(1)})` : skill.name;
+
+export const formatSkillGroup = (group: SkillGroup) => `${group.category}: ${group.skills.map(formatSkill).join(', ')}`;
+
+export const skillNames = (skills: Skill[]) => skills.map((skill) => skill.name).join(', ');
+
+export const technicalSkills = (skills: Skill[]) => skills.filter((skill) => !isSoftSkill(skill));
+export const softSkills = (skills: Skill[]) => skills.filter(isSoftSkill);
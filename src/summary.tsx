@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Sparkles, Pin, History } from 'lucide-react';
+import { cn } from './utils';
+import type { SummaryAudience, SummaryGeneration, SummaryLength, SummaryOptions, SummaryTone } from './types';
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = { tone: 'formal', audience: 'internship', length: 'medium' };
+
+const TONES: { id: SummaryTone; label: string }[] = [
+  { id: 'formal', label: 'Formal' },
+  { id: 'enthusiastic', label: 'Enthusiastic' },
+  { id: 'concise', label: 'Concise' },
+];
+
+const AUDIENCES: { id: SummaryAudience; label: string }[] = [
+  { id: 'internship', label: 'Internship' },
+  { id: 'research', label: 'Research' },
+  { id: 'full-time', label: 'Full-time' },
+];
+
+const LENGTHS: { id: SummaryLength; label: string }[] = [
+  { id: 'short', label: 'Short' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'long', label: 'Long' },
+];
+
+const labelOf = <T extends string>(choices: { id: T; label: string }[], id: T) => choices.find((choice) => choice.id === id)?.label;
+
+const optionLabel = (options: SummaryOptions) =>
+  [labelOf(TONES, options.tone), labelOf(AUDIENCES, options.audience), labelOf(LENGTHS, options.length)].join(' · ');
+
+function OptionGroup<T extends string>({ label, choices, value, onChange }: { label: string; choices: { id: T; label: string }[]; value: T; onChange: (value: T) => void }) {
+  return (
+    <div>
+      <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-1">{label}</p>
+      <div className="flex gap-1">
+        {choices.map((choice) => (
+          <button
+            key={choice.id}
+            type="button"
+            onClick={() => onChange(choice.id)}
+            className={cn(
+              "flex-1 px-2 py-1 rounded-lg text-xs font-medium border transition-all",
+              value === choice.id ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-slate-700 text-slate-400 hover:border-slate-600"
+            )}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const VariantList = ({ generation, onUse }: { generation: SummaryGeneration; onUse: (text: string) => void }) => (
+  <ul className="space-y-2">
+    {generation.variants.map((variant, i) => (
+      <li key={i} className="p-3 rounded-xl bg-slate-800/50 border border-slate-800">
+        <p className="text-xs text-slate-300 leading-relaxed">{variant}</p>
+        <button type="button" onClick={() => onUse(variant)} className="mt-2 text-xs font-bold text-indigo-400 hover:underline">
+          Use this
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+interface SummaryStudioProps {
+  summary: string;
+  history: SummaryGeneration[];
+  generating: boolean;
+  onGenerate: (options: SummaryOptions) => void;
+  onPin: (summary: string) => void;
+}
+
+/** Generates summary variants for chosen tone, audience and length, and pins the edited choice. */
+export const SummaryStudio = ({ summary, history, generating, onGenerate, onPin }: SummaryStudioProps) => {
+  const [options, setOptions] = useState<SummaryOptions>(history[0]?.options ?? DEFAULT_SUMMARY_OPTIONS);
+  const [draft, setDraft] = useState(summary);
+  const [showHistory, setShowHistory] = useState(false);
+  const [latest, ...previous] = history;
+
+  useEffect(() => setDraft(summary), [summary]);
+
+  const update = <K extends keyof SummaryOptions>(key: K) => (value: SummaryOptions[K]) => setOptions({ ...options, [key]: value });
+
+  return (
+    <div className="bg-indigo-500/10 p-6 rounded-3xl border border-indigo-500/20 space-y-4">
+      <h3 className="text-lg font-bold text-indigo-300 flex items-center">
+        <Sparkles className="w-5 h-5 mr-2" /> LinkedIn Summary
+      </h3>
+
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-36"
+          placeholder="Generate a summary or write your own..."
+        />
+        {draft === summary && summary ? (
+          <p className="text-xs text-green-400 flex items-center"><Pin className="w-3 h-3 mr-1" /> Pinned to your resume</p>
+        ) : (
+          <button type="button" onClick={() => onPin(draft.trim())} className="text-xs font-bold text-indigo-400 hover:underline flex items-center">
+            <Pin className="w-3 h-3 mr-1" /> Pin this summary
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <OptionGroup label="Tone" choices={TONES} value={options.tone} onChange={update('tone')} />
+        <OptionGroup label="Audience" choices={AUDIENCES} value={options.audience} onChange={update('audience')} />
+        <OptionGroup label="Length" choices={LENGTHS} value={options.length} onChange={update('length')} />
+      </div>
+      <button
+        type="button"
+        onClick={() => onGenerate(options)}
+        disabled={generating}
+        className="w-full py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+      >
+        {generating ? "Generating..." : "Generate Variants"}
+      </button>
+
+      {latest && (
+        <div>
+          <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Latest · {optionLabel(latest.options)}</p>
+          <VariantList generation={latest} onUse={setDraft} />
+        </div>
+      )}
+
+      {previous.length > 0 && (
+        <div>
+          <button type="button" onClick={() => setShowHistory(!showHistory)} className="text-xs text-slate-400 hover:text-white flex items-center">
+            <History className="w-3 h-3 mr-1" />
+            {showHistory ? "Hide" : "Show"} previous generations ({previous.length})
+          </button>
+          {showHistory && (
+            <div className="mt-3 space-y-4">
+              {previous.map((generation) => (
+                <div key={generation.createdAt}>
+                  <p className="text-xs text-slate-500 mb-2">
+                    {new Date(generation.createdAt).toLocaleString()} · {optionLabel(generation.options)}
+                  </p>
+                  <VariantList generation={generation} onUse={setDraft} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
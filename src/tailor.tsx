@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Target, Sparkles } from 'lucide-react';
+import { matchKeywords, type KeywordReport } from './keywords';
+import { suggestTailoring } from './api';
+import { withEntryText } from './entries';
+import { cn } from './utils';
+import type { ResumeData, TailoringSuggestion } from './types';
+
+const SECTION_LABELS = { projects: 'Project', activities: 'Activity', experience: 'Experience' };
+
+export const TailorPanel = ({ data, onApply }: { data: ResumeData; onApply: (changes: Partial<ResumeData>) => void }) => {
+  const [jobDescription, setJobDescription] = useState("");
+  const [report, setReport] = useState<KeywordReport | null>(null);
+  const [suggestions, setSuggestions] = useState<TailoringSuggestion[]>([]);
+  const [loadingAi, setLoadingAi] = useState(false);
+  const [aiError, setAiError] = useState("");
+
+  const analyze = () => {
+    setReport(matchKeywords(jobDescription, data));
+    setSuggestions([]);
+    setAiError("");
+  };
+
+  const requestSuggestions = async () => {
+    if (!report) return;
+    setLoadingAi(true);
+    setAiError("");
+    try {
+      const result = await suggestTailoring(data, jobDescription, report.keywords.map((keyword) => keyword.term));
+      setSuggestions(result.suggestions);
+      if (result.suggestions.length === 0) setAiError("No rewording suggestions for this posting.");
+    } catch (error) {
+      console.error("Error tailoring resume:", error);
+      setAiError("Could not get AI suggestions. Try again later.");
+    } finally {
+      setLoadingAi(false);
+    }
+  };
+
+  const apply = (suggestion: TailoringSuggestion) => {
+    const { section } = suggestion;
+    const next = withEntryText(data, section, suggestion.index, suggestion.suggestion);
+    // Only the edited list goes back, so the rest of a variant's view isn't saved over the master.
+    onApply(section === 'projects' ? { projects: next.projects } : section === 'activities' ? { activities: next.activities } : { experience: next.experience });
+    setSuggestions((current) => current.filter((item) => item !== suggestion));
+    setReport(matchKeywords(jobDescription, next));
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800">
+      <h3 className="text-xl font-bold mb-4 text-white flex items-center">
+        <Target className="w-5 h-5 mr-2 text-indigo-400" /> Tailor to Job
+      </h3>
+      <textarea
+        value={jobDescription}
+        onChange={(e) => setJobDescription(e.target.value)}
+        className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all h-32"
+        placeholder="Paste the job description here..."
+      />
+      <button
+        onClick={analyze}
+        disabled={!jobDescription.trim()}
+        className="mt-3 w-full py-2 bg-slate-800 text-white rounded-xl text-sm font-bold hover:bg-slate-700 transition-all disabled:opacity-50"
+      >
+        Analyze Match
+      </button>
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          {report.keywords.length === 0 ? (
+            <p className="text-xs text-slate-400">No recognizable skills or keywords found in this posting.</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-end">
+                <span className="text-sm text-slate-400">Keyword match</span>
+                <span className={cn("text-lg font-black",
+                  report.score < 50 ? "text-red-400" : report.score < 75 ? "text-yellow-400" : "text-green-400"
+                )}>
+                  {report.score}%
+                </span>
+              </div>
+              {report.matched.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-1">Matched</p>
+                  <div className="flex flex-wrap gap-1">
+                    {report.matched.map((keyword) => (
+                      <span key={keyword.term} className="px-2 py-0.5 rounded-full bg-green-500/10 text-green-400 text-xs">{keyword.term}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {report.missing.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-1">Missing</p>
+                  <div className="flex flex-wrap gap-1">
+                    {report.missing.map((keyword) => (
+                      <span key={keyword.term} className="px-2 py-0.5 rounded-full bg-red-500/10 text-red-400 text-xs">{keyword.term}</span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">Only add missing keywords you genuinely have experience with.</p>
+                </div>
+              )}
+              <button onClick={requestSuggestions} disabled={loadingAi} className="text-xs font-bold text-indigo-400 hover:underline flex items-center disabled:opacity-50">
+                <Sparkles className="w-3 h-3 mr-1" />
+                {loadingAi ? "Thinking..." : "Suggest rewording with AI"}
+              </button>
+            </>
+          )}
+          {aiError && <p className="text-xs text-slate-400">{aiError}</p>}
+          {suggestions.map((suggestion) => (
+            <div key={`${suggestion.section}-${suggestion.index}`} className="p-3 rounded-xl bg-slate-800/50 border border-slate-800 space-y-2">
+              <p className="text-xs font-bold text-slate-400">{SECTION_LABELS[suggestion.section]} #{suggestion.index + 1}</p>
+              <p className="text-xs text-slate-500 line-through whitespace-pre-line">{suggestion.original}</p>
+              <p className="text-xs text-slate-200 whitespace-pre-line">{suggestion.suggestion}</p>
+              <div className="flex gap-3">
+                <button onClick={() => apply(suggestion)} className="text-xs font-bold text-indigo-400 hover:underline">Apply</button>
+                <button onClick={() => setSuggestions((current) => current.filter((item) => item !== suggestion))} className="text-xs text-slate-500 hover:text-white">Dismiss</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import { Github, Linkedin, Mail, Phone, MapPin } from 'lucide-react';
+import type { ReactNode } from 'react';
+import type { CustomEntry, ResumeData, ResumeSection, TemplateId } from './types';
+import { formatEducationRange, formatMonth, formatRange, printOrder, sortByRecency } from './dates';
+import { formatSkill, groupSkills } from './skills';
+import { filledEntries, sectionTitle, visibleSections, type BuiltInSectionId } from './sections';
+
+export interface TemplateProps {
+  data: ResumeData;
+  summary: string;
+}
+
+const Paragraphs = ({ text, className }: { text: string; className?: string }) => {
+  const lines = text.split('\n').map((line) => line.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+  if (lines.length <= 1) return <p className={className}>{lines[0]}</p>;
+  return (
+    <ul className={`list-disc pl-5 ${className ?? ''}`}>
+      {lines.map((line, i) => <li key={i}>{line}</li>)}
+    </ul>
+  );
+};
+
+const ContactDetails = ({ data, className }: { data: ResumeData; className: string }) => (
+  <div className={className}>
+    <span className="flex items-center"><Mail className="w-3 h-3 mr-1" /> {data.email}</span>
+    <span className="flex items-center"><Phone className="w-3 h-3 mr-1" /> {data.phone}</span>
+    <span className="flex items-center"><MapPin className="w-3 h-3 mr-1" /> {data.location}</span>
+    {data.linkedin && <a href={data.linkedin} className="flex items-center"><Linkedin className="w-3 h-3 mr-1" /> LinkedIn</a>}
+    {data.github && <a href={data.github} className="flex items-center"><Github className="w-3 h-3 mr-1" /> GitHub</a>}
+  </div>
+);
+
+// Entries are marked data-keep: the paginated preview moves an entry to the next page rather than split it.
+const ExperienceEntries = ({ data, compact }: { data: ResumeData; compact?: boolean }) => (
+  <div className={compact ? "space-y-2" : "space-y-4"}>
+    {sortByRecency(data.experience).map((job, i) => (
+      <div key={i} data-keep>
+        <div className="flex justify-between items-baseline">
+          <div className={compact ? "font-bold" : "font-bold text-sm"}>{job.title}{job.company && `, ${job.company}`}</div>
+          <div className="text-xs italic text-slate-600">{formatRange(job.startDate, job.endDate)}</div>
+        </div>
+        {job.location && !compact && <div className="text-xs text-slate-600 mb-1">{job.location}</div>}
+        <ul className={compact ? "list-disc pl-5" : "list-disc pl-5 text-sm leading-relaxed"}>
+          {job.bullets.filter(Boolean).map((bullet, j) => <li key={j}>{bullet}</li>)}
+        </ul>
+      </div>
+    ))}
+  </div>
+);
+
+const CertificationList = ({ data, className }: { data: ResumeData; className?: string }) => (
+  <ul className={className}>
+    {data.certifications.map((cert, i) => (
+      <li key={i}>
+        {cert.credentialUrl ? <a href={cert.credentialUrl} className="font-bold underline">{cert.name}</a> : <span className="font-bold">{cert.name}</span>}
+        {cert.issuer && ` — ${cert.issuer}`}
+        {cert.date && <span className="italic text-slate-600"> ({formatMonth(cert.date)})</span>}
+      </li>
+    ))}
+  </ul>
+);
+
+const HonorList = ({ data, className }: { data: ResumeData; className?: string }) => (
+  <ul className={className}>
+    {data.honors.map((honor, i) => (
+      <li key={i}>
+        <span className="font-bold">{honor.title}</span>
+        {honor.issuer && ` — ${honor.issuer}`}
+        {honor.date && <span className="italic text-slate-600"> ({formatMonth(honor.date)})</span>}
+        {honor.description && <span>: {honor.description}</span>}
+      </li>
+    ))}
+  </ul>
+);
+
+/** The name and contact block of each template, shared with documents that should match the resume. */
+export const ResumeHeader = ({ data, template }: { data: ResumeData; template?: TemplateId }) => {
+  if (template === 'modern') return (
+    <header className="mb-6">
+      <h1 className="text-3xl font-bold uppercase tracking-tight resume-accent mb-2">{data.name}</h1>
+      <ContactDetails data={data} className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-700" />
+    </header>
+  );
+  if (template === 'compact') return (
+    <header className="mb-3">
+      <h1 className="text-2xl font-bold uppercase tracking-tight">{data.name}</h1>
+      <ContactDetails data={data} className="flex flex-wrap gap-x-3 text-xs text-slate-700" />
+    </header>
+  );
+  return (
+    <header className="text-center mb-8">
+      <h1 className="text-3xl font-bold uppercase tracking-tight mb-2">{data.name}</h1>
+      <ContactDetails data={data} className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-slate-700" />
+    </header>
+  );
+};
+
+// Renders one section's content, or null when the section has nothing to show.
+type SectionBody = (section: ResumeSection) => ReactNode;
+
+// Visible sections in layout order, each under its (possibly renamed) title.
+const renderSections = (sections: ResumeSection[], body: SectionBody, heading: (title: string) => ReactNode, defaults: Partial<Record<BuiltInSectionId, string>>) =>
+  sections.map((section) => {
+    const content = body(section);
+    if (!content) return null;
+    return (
+      <section key={section.id}>
+        {heading(sectionTitle(section, defaults))}
+        {content}
+      </section>
+    );
+  });
+
+const ProjectEntries = ({ data, variant }: { data: ResumeData; variant: TemplateId }) => (
+  <div className={variant === 'compact' ? "space-y-2" : "space-y-4"}>
+    {printOrder(data, data.projects).map((project, i) => {
+      const meta = [project.technologies, formatRange(project.startDate, project.endDate)].filter(Boolean).join(' · ');
+      if (variant === 'modern') return (
+        <div key={i} data-keep>
+          <div className="font-bold text-sm">{project.title}</div>
+          <div className="text-xs italic text-slate-600 mb-1">{meta}</div>
+          <Paragraphs text={project.description} className="text-sm leading-relaxed" />
+        </div>
+      );
+      if (variant === 'compact') return (
+        <div key={i} data-keep>
+          <div className="flex justify-between">
+            <span className="font-bold">{project.title}</span>
+            <span className="text-xs italic text-slate-600">{meta}</span>
+          </div>
+          <Paragraphs text={project.description} />
+        </div>
+      );
+      return (
+        <div key={i} data-keep>
+          <div className="flex justify-between items-center mb-1">
+            <div className="font-bold text-sm">{project.title}</div>
+            <div className="text-xs italic text-slate-600">{meta}</div>
+          </div>
+          <Paragraphs text={project.description} className="text-sm leading-relaxed" />
+        </div>
+      );
+    })}
+  </div>
+);
+
+const ActivityEntries = ({ data, compact }: { data: ResumeData; compact?: boolean }) => (
+  <div className={compact ? "space-y-2" : "space-y-4"}>
+    {printOrder(data, data.activities).map((activity, i) => compact ? (
+      <div key={i} data-keep>
+        <span className="font-bold">{activity.role}</span>
+        {(activity.startDate || activity.endDate) && <span className="text-xs italic text-slate-600"> ({formatRange(activity.startDate, activity.endDate)})</span>}
+        <span className="font-bold">: </span>
+        <Paragraphs text={activity.achievements} className="inline" />
+      </div>
+    ) : (
+      <div key={i} data-keep>
+        <div className="flex justify-between items-baseline mb-1">
+          <div className="font-bold text-sm">{activity.role}</div>
+          <div className="text-xs italic text-slate-600">{formatRange(activity.startDate, activity.endDate)}</div>
+        </div>
+        <Paragraphs text={activity.achievements} className="text-sm leading-relaxed" />
+      </div>
+    ))}
+  </div>
+);
+
+const CustomEntries = ({ entries, compact }: { entries: CustomEntry[]; compact?: boolean }) => (
+  <div className={compact ? "space-y-2" : "space-y-3"}>
+    {entries.map((entry, i) => (
+      <div key={i} data-keep>
+        <div className="flex justify-between items-baseline">
+          <div className={compact ? "font-bold" : "font-bold text-sm"}>
+            {entry.title}
+            {entry.subtitle && <span className="font-normal"> — {entry.subtitle}</span>}
+          </div>
+          {entry.date && <div className="text-xs italic text-slate-600">{formatMonth(entry.date)}</div>}
+        </div>
+        {entry.description && <Paragraphs text={entry.description} className={compact ? undefined : "text-sm leading-relaxed"} />}
+      </div>
+    ))}
+  </div>
+);
+
+const customBody = (section: ResumeSection, compact?: boolean) => {
+  const entries = filledEntries(section);
+  return entries.length > 0 ? <CustomEntries entries={entries} compact={compact} /> : null;
+};
+
+export const ClassicTemplate = ({ data, summary }: TemplateProps) => {
+  const body: SectionBody = (section) => {
+    switch (section.id) {
+      case 'summary': return summary && <p className="text-sm leading-relaxed">{summary}</p>;
+      case 'education': return (
+        <>
+          <div className="flex justify-between items-start mb-1">
+            <div className="font-bold text-sm">{data.college}</div>
+            <div className="text-sm italic">{formatEducationRange(data)}</div>
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <div>{data.degree}</div>
+            {data.cgpa && <div>CGPA: {data.cgpa}</div>}
+          </div>
+        </>
+      );
+      case 'skills': return data.skills.length > 0 && groupSkills(data.skills).map((group) => (
+        <div key={group.category} className="text-sm mb-1 last:mb-0">
+          <span className="font-bold">{group.category}: </span> {group.skills.map(formatSkill).join(', ')}
+        </div>
+      ));
+      case 'experience': return data.experience.length > 0 && <ExperienceEntries data={data} />;
+      case 'projects': return data.projects.length > 0 && <ProjectEntries data={data} variant="classic" />;
+      case 'activities': return data.activities.length > 0 && <ActivityEntries data={data} />;
+      case 'certifications': return data.certifications.length > 0 && <CertificationList data={data} className="text-sm space-y-1" />;
+      case 'honors': return data.honors.length > 0 && <HonorList data={data} className="text-sm space-y-1" />;
+      default: return customBody(section);
+    }
+  };
+
+  return (
+    <div className="p-(--resume-margin)">
+      <ResumeHeader data={data} template="classic" />
+      <div className="space-y-6">
+        {renderSections(visibleSections(data), body, (title) => <h2 className="resume-section-title">{title}</h2>, {})}
+      </div>
+    </div>
+  );
+};
+
+// The sidebar keeps short reference sections; everything else, custom sections included, goes in the main column.
+const MODERN_SIDEBAR: string[] = ['education', 'skills', 'certifications', 'honors'];
+const MODERN_TITLES = { summary: 'Profile', honors: 'Honors' };
+
+export const ModernTemplate = ({ data, summary }: TemplateProps) => {
+  const heading = (title: string) => <h2 className="resume-section-title">{title}</h2>;
+  const sections = visibleSections(data);
+
+  const body: SectionBody = (section) => {
+    switch (section.id) {
+      case 'summary': return summary && <p className="text-sm leading-relaxed">{summary}</p>;
+      case 'education': return (
+        <>
+          <div className="font-bold text-sm">{data.college}</div>
+          <div className="text-sm">{data.degree}</div>
+          <div className="text-xs text-slate-600">{formatEducationRange(data)}{data.cgpa && ` | CGPA: ${data.cgpa}`}</div>
+        </>
+      );
+      // Renamed skills get one heading with the categories beneath it.
+      case 'skills': return data.skills.length > 0 && groupSkills(data.skills).map((group) => (
+        <div key={group.category} className="mb-2 last:mb-0">
+          <div className="text-xs font-bold uppercase text-slate-500">{group.category}</div>
+          <ul className="text-sm space-y-0.5">
+            {group.skills.map((skill) => <li key={skill.name}>{formatSkill(skill)}</li>)}
+          </ul>
+        </div>
+      ));
+      case 'experience': return data.experience.length > 0 && <ExperienceEntries data={data} />;
+      case 'projects': return data.projects.length > 0 && <ProjectEntries data={data} variant="modern" />;
+      case 'activities': return data.activities.length > 0 && <ActivityEntries data={data} />;
+      case 'certifications': return data.certifications.length > 0 && <CertificationList data={data} className="text-sm space-y-2" />;
+      case 'honors': return data.honors.length > 0 && <HonorList data={data} className="text-sm space-y-2" />;
+      default: return customBody(section);
+    }
+  };
+
+  // By default each skill category gets its own sidebar heading.
+  const sidebarSection = (section: ResumeSection) =>
+    section.id === 'skills' && !section.title.trim()
+      ? groupSkills(data.skills).map((group) => (
+        <section key={group.category}>
+          {heading(group.category)}
+          <ul className="text-sm space-y-0.5">
+            {group.skills.map((skill) => <li key={skill.name}>{formatSkill(skill)}</li>)}
+          </ul>
+        </section>
+      ))
+      : renderSections([section], body, heading, MODERN_TITLES);
+
+  return (
+    <div className="p-(--resume-margin)">
+      <ResumeHeader data={data} template="modern" />
+
+      <div className="grid grid-cols-[1fr_2fr] gap-8">
+        <aside className="space-y-6 border-r border-slate-200 pr-6">
+          {sections.filter((section) => MODERN_SIDEBAR.includes(section.id)).map(sidebarSection)}
+        </aside>
+
+        <main className="space-y-6">
+          {renderSections(sections.filter((section) => !MODERN_SIDEBAR.includes(section.id)), body, heading, MODERN_TITLES)}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export const CompactTemplate = ({ data, summary }: TemplateProps) => {
+  const body: SectionBody = (section) => {
+    switch (section.id) {
+      case 'summary': return summary && <p>{summary}</p>;
+      case 'education': return (
+        <div className="flex justify-between">
+          <span><span className="font-bold">{data.college}</span> — {data.degree}{data.cgpa && ` (CGPA: ${data.cgpa})`}</span>
+          <span className="italic">{formatEducationRange(data)}</span>
+        </div>
+      );
+      case 'skills': return data.skills.length > 0 && (
+        <p>
+          {groupSkills(data.skills).map((group, i) => (
+            <span key={group.category}>
+              {i > 0 && <span className="text-slate-400"> | </span>}
+              <span className="font-bold">{group.category}: </span>{group.skills.map(formatSkill).join(', ')}
+            </span>
+          ))}
+        </p>
+      );
+      case 'experience': return data.experience.length > 0 && <ExperienceEntries data={data} compact />;
+      case 'projects': return data.projects.length > 0 && <ProjectEntries data={data} variant="compact" />;
+      case 'activities': return data.activities.length > 0 && <ActivityEntries data={data} compact />;
+      case 'certifications': return data.certifications.length > 0 && <CertificationList data={data} />;
+      case 'honors': return data.honors.length > 0 && <HonorList data={data} />;
+      default: return customBody(section, true);
+    }
+  };
+
+  return (
+    <div className="p-(--resume-margin)">
+      <ResumeHeader data={data} template="compact" />
+      <div className="space-y-3">
+        {renderSections(visibleSections(data), body, (title) => <h2 className="resume-section-title mb-1">{title}</h2>, { summary: 'Summary' })}
+      </div>
+    </div>
+  );
+};
+
+export const TEMPLATES: { id: TemplateId; name: string; description: string; component: typeof ClassicTemplate }[] = [
+  { id: 'classic', name: 'Classic', description: 'Single column, centered header', component: ClassicTemplate },
+  { id: 'modern', name: 'Modern', description: 'Two columns with a skills sidebar', component: ModernTemplate },
+  { id: 'compact', name: 'Compact', description: 'Dense layout that fits one page', component: CompactTemplate },
+];
+
+export const getTemplate = (id?: TemplateId) => TEMPLATES.find((template) => template.id === id) ?? TEMPLATES[0];
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseResumeText } from './textImport';
+
+const BULLETED = `Asha Rao
+asha@example.com | +1 555 010 2000
+
+Projects
+Campus Market | React, Node.js | Jan 2023 - May 2023
+- Built a marketplace for students to trade textbooks.
+- Reached 300 users in the first month.
+Weather Bot
+- Wrote a chat bot that posts daily forecasts.
+
+Activities
+Coding Club Lead | Sep 2021 - Present
+- Organized weekly workshops for 40 members.`;
+
+// Pasted resumes often describe entries in plain sentences rather than bullets.
+const PROSE = `Asha Rao
+asha@example.com
+
+Projects
+Campus Market
+Jan 2023 - May 2023
+Built a marketplace for students to trade textbooks using React and PostgreSQL.
+Reached 300 users in the first month.
+Weather Bot | 2022
+A chat bot that posts daily forecasts to the class group, written in Python.
+
+Activities
+Coding Club Lead
+Sep 2021 - Present
+Organized weekly workshops for 40 members and mentored first-year students.
+Hackathon Volunteer | 2022
+Ran registration and judging logistics for a 200-person event.`;
+
+describe('parseResumeText', () => {
+  it('splits bulleted entries', () => {
+    const { data, lowConfidence } = parseResumeText(BULLETED);
+    assert.deepEqual(data.projects.map((project) => project.title), ['Campus Market', 'Weather Bot']);
+    assert.equal(data.projects[0].technologies, 'React, Node.js');
+    assert.equal(data.projects[0].startDate, '2023-01');
+    assert.equal(data.projects[0].description, 'Built a marketplace for students to trade textbooks.\nReached 300 users in the first month.');
+    assert.equal(data.activities[0].role, 'Coding Club Lead');
+    assert.equal(data.activities[0].achievements, 'Organized weekly workshops for 40 members.');
+    assert.ok(lowConfidence.includes('projects.0.technologies'));
+  });
+
+  it('reads plain-prose lines after an entry title as its description', () => {
+    const { data } = parseResumeText(PROSE);
+    assert.deepEqual(data.projects.map((project) => project.title), ['Campus Market', 'Weather Bot']);
+    assert.equal(data.projects[0].description, 'Built a marketplace for students to trade textbooks using React and PostgreSQL.\nReached 300 users in the first month.');
+    assert.equal(data.projects[0].endDate, '2023-05');
+    assert.equal(data.projects[1].description, 'A chat bot that posts daily forecasts to the class group, written in Python.');
+    assert.deepEqual(data.activities.map((activity) => activity.role), ['Coding Club Lead', 'Hackathon Volunteer']);
+    assert.match(data.activities[0].achievements, /^Organized weekly workshops/);
+    assert.match(data.activities[1].achievements, /^Ran registration/);
+  });
+
+  it('flags technologies and roles it had to guess', () => {
+    const { data, lowConfidence } = parseResumeText(PROSE);
+    assert.equal(data.projects[0].technologies, 'React, PostgreSQL');
+    assert.ok(lowConfidence.includes('projects.0.technologies'));
+    assert.ok(lowConfidence.includes('activities.0.role'));
+    assert.ok(lowConfidence.includes('activities.1.role'));
+  });
+
+  it('trusts technologies given under a label', () => {
+    const { data, lowConfidence } = parseResumeText('Projects\nCampus Market\nTech: React, Node.js\nBuilt a marketplace for students.');
+    assert.equal(data.projects[0].technologies, 'React, Node.js');
+    assert.equal(data.projects[0].description, 'Built a marketplace for students.');
+    assert.ok(!lowConfidence.includes('projects.0.technologies'));
+  });
+});
@@ -0,0 +1,279 @@
+import { currentMonth } from './dates';
+import { SKILL_TERMS, containsTerm } from './keywords';
+import { newEntryId } from './schema';
+import { canonicalSkill, dedupeSkills } from './skills';
+import type { Activity, Certification, Experience, Honor, Project, ResumeData, SkillCategory } from './types';
+
+/** A resume guessed from unstructured text, with the fields the user should double-check. */
+export interface ParsedResume {
+  data: ResumeData;
+  // Form field names, e.g. "projects.0.technologies".
+  lowConfidence: string[];
+}
+
+type SectionId = 'summary' | 'education' | 'skills' | 'experience' | 'projects' | 'activities' | 'certifications' | 'honors';
+
+// Checked in order, so "work experience" is claimed before the looser activity words.
+const SECTION_HEADINGS: [SectionId, RegExp][] = [
+  ['summary', /^(summary|professional summary|profile|about( me)?|objective|career objective)$/],
+  ['education', /^(education|academic (background|details)|academics)$/],
+  ['skills', /^((technical |key |core )?skills|skills (&|and) (tools|interests)|technologies|tech stack)$/],
+  ['experience', /^((work|professional|industry) experience|experience|employment( history)?|internships?)$/],
+  ['projects', /^((academic |personal |key )?projects)$/],
+  ['activities', /^((extra[- ]?curricular )?activities|extracurriculars?|leadership( experience)?|volunteer(ing)?( experience)?|positions of responsibility|activities (&|and) achievements)$/],
+  ['certifications', /^(certifications?|certificates|licenses (&|and) certifications)$/],
+  ['honors', /^(honou?rs( (&|and) awards)?|awards( (&|and) honou?rs)?|achievements|accomplishments)$/],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH_NAME}\\s*'?\\d{2,4}|\\d{1,2}[/.-]\\d{4}|\\d{4}[/.-]\\d{1,2}|\\d{4})`;
+const PRESENT = '(?:present|current|now|ongoing|till date)';
+const RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|${PRESENT})`, 'i');
+const SINGLE_DATE = new RegExp(DATE, 'i');
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+const PHONE = /(\+?\d[\d\s().-]{7,}\d)/;
+const LINKEDIN = /(https?:\/\/)?(www\.)?linkedin\.com\/[^\s|,]+/i;
+const GITHUB = /(https?:\/\/)?(www\.)?github\.com\/[^\s|,]+/i;
+const BULLET = /^\s*[-•*▪●◦‣–]\s*/;
+const COLLEGE = /\b(university|college|institute|school|academy|iit|nit|polytechnic)\b/i;
+const DEGREE = /\b(bachelor|master|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\b|b\.?\s?sc|m\.?\s?sc|b\.?\s?s\b|m\.?\s?s\b|b\.?\s?a\b|bca|mca|mba|ph\.?\s?d|diploma|associate|degree)/i;
+const GPA = /\b(c?gpa|grade)\s*[:\-]?\s*(\d+(\.\d+)?(\s*\/\s*\d+(\.\d+)?)?)/i;
+const SKILL_LABELS: [RegExp, SkillCategory][] = [
+  [/^(soft|interpersonal)/i, 'Soft Skills'],
+  [/^(programming )?languages/i, 'Languages'],
+  [/^(frameworks|libraries)/i, 'Frameworks'],
+  [/^databases/i, 'Databases'],
+  [/^(cloud|devops)/i, 'Cloud & DevOps'],
+  [/^(tools|technologies|software)/i, 'Tools'],
+];
+
+// Generic labels such as "Technical Skills" carry no category, so they return undefined.
+const labelCategory = (label: string) => SKILL_LABELS.find(([pattern]) => pattern.test(label))?.[1];
+
+const toMonth = (value: string | undefined): string => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text || new RegExp(`^${PRESENT}$`).test(text)) return '';
+  const named = /^([a-z]{3})[a-z]*\.?\s*'?(\d{2,4})$/.exec(text);
+  if (named && MONTHS.includes(named[1])) {
+    const year = named[2].length === 2 ? `20${named[2]}` : named[2];
+    return `${year}-${String(MONTHS.indexOf(named[1]) + 1).padStart(2, '0')}`;
+  }
+  const monthFirst = /^(\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (monthFirst) return `${monthFirst[2]}-${monthFirst[1].padStart(2, '0')}`;
+  const yearFirst = /^(\d{4})[/.-](\d{1,2})$/.exec(text);
+  if (yearFirst) return `${yearFirst[1]}-${yearFirst[2].padStart(2, '0')}`;
+  // A bare year carries no month; assume the start of it.
+  return /^\d{4}$/.test(text) ? `${text}-01` : '';
+};
+
+/** Pulls a date range out of a line, returning the line without it. */
+const takeDates = (line: string) => {
+  const range = RANGE.exec(line);
+  if (range) {
+    return { rest: line.replace(range[0], '').trim(), startDate: toMonth(range[1]), endDate: toMonth(range[2]), found: true };
+  }
+  const single = SINGLE_DATE.exec(line);
+  if (single && /\d{4}/.test(single[0])) {
+    return { rest: line.replace(single[0], '').trim(), startDate: toMonth(single[0]), endDate: toMonth(single[0]), found: true };
+  }
+  return { rest: line, startDate: '', endDate: '', found: false };
+};
+
+// Separators left behind once dates or links are cut out of a line.
+const tidy = (text: string) => text.replace(/^[\s|,:;·•–—-]+|[\s|,:;·•–—-]+$/g, '').replace(/\s{2,}/g, ' ');
+
+const headingOf = (line: string): SectionId | null => {
+  const text = line.toLowerCase().replace(/[:：]$/, '').replace(/\s+/g, ' ').trim();
+  if (text.split(' ').length > 5) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+};
+
+// An entry's title line rather than its description: it carries dates, or is short and unpunctuated
+// (a plain sentence of prose is description even without a bullet).
+const looksLikeHeading = (line: string) =>
+  RANGE.test(line) || (!/[.!?;:]$/.test(line) && (line.split(' ').length <= 4 || /\s[|–—]\s/.test(line)));
+
+/**
+ * Groups a section's lines into entries. After an entry's title, lines that
+ * don't look like a heading are its description. Once an entry has bullets,
+ * any non-bullet line starts the next entry; after a prose description, only
+ * a heading-like line does.
+ */
+const splitEntries = (lines: string[]) => {
+  const entries: { heading: string[]; body: string[]; bulleted: boolean }[] = [];
+  lines.forEach((line) => {
+    const current = entries[entries.length - 1];
+    if (BULLET.test(line)) {
+      const bullet = line.replace(BULLET, '').trim();
+      if (!current) {
+        entries.push({ heading: [], body: [bullet], bulleted: true });
+        return;
+      }
+      current.body.push(bullet);
+      current.bulleted = true;
+      return;
+    }
+    const heading = looksLikeHeading(line);
+    const secondRange = !!current && RANGE.test(line) && current.heading.some((h) => RANGE.test(h));
+    if (!current || secondRange || (current.body.length > 0 && (current.bulleted || heading))) {
+      entries.push({ heading: [line], body: [], bulleted: false });
+    } else if (current.body.length === 0 && heading) {
+      current.heading.push(line);
+    } else {
+      current.body.push(line);
+    }
+  });
+  return entries;
+};
+
+const knownSkills = (text: string) =>
+  SKILL_TERMS.filter((term) => [term.name, ...term.aliases].some((variant) => variant.length > 2 && containsTerm(text, variant))).map((term) => term.name);
+
+const splitList = (text: string) => text.split(/[,;|•·]/).map((item) => item.trim()).filter(Boolean);
+
+const emptyResume = (): ResumeData => ({
+  name: '', email: '', phone: '', linkedin: '', github: '', location: '', college: '', degree: '',
+  educationStart: '', educationEnd: '', currentStudent: true, cgpa: '', skills: [],
+  experience: [], projects: [], activities: [], certifications: [], honors: [],
+});
+
+/**
+ * Segments plain resume text (pasted, or extracted from a PDF) into our model
+ * using headings, dates and known skills. Anything guessed rather than read
+ * from a clear label is reported in lowConfidence.
+ */
+export function parseResumeText(text: string): ParsedResume {
+  const data = emptyResume();
+  const lowConfidence: string[] = [];
+  const lines = text.replace(/\r/g, '').split('\n').map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  // Everything before the first heading is the header block.
+  const sections = new Map<SectionId, string[]>();
+  const header: string[] = [];
+  let current: string[] = header;
+  lines.forEach((line) => {
+    const heading = headingOf(line);
+    if (heading) {
+      current = sections.get(heading) ?? [];
+      sections.set(heading, current);
+    } else {
+      current.push(line);
+    }
+  });
+
+  // Contact details can sit anywhere, but usually in the header.
+  const all = lines.join('\n');
+  data.email = EMAIL.exec(all)?.[0] ?? '';
+  data.linkedin = LINKEDIN.exec(all)?.[0] ?? '';
+  data.github = GITHUB.exec(all)?.[0] ?? '';
+  const phone = PHONE.exec(header.join('\n').replace(EMAIL, '').replace(LINKEDIN, '').replace(GITHUB, ''));
+  data.phone = phone?.[1].trim() ?? '';
+  const withHttps = (url: string) => (url && !/^https?:\/\//.test(url) ? `https://${url}` : url);
+  data.linkedin = withHttps(data.linkedin);
+  data.github = withHttps(data.github);
+
+  const contactFree = header.map((line) =>
+    tidy([EMAIL, PHONE, LINKEDIN, GITHUB].reduce((rest, pattern) => rest.replace(pattern, ' '), line))
+  ).filter(Boolean);
+  const nameIndex = contactFree.findIndex((line) => /^[\p{L}'.-]+(\s[\p{L}'.-]+){1,3}$/u.test(line));
+  if (nameIndex >= 0) {
+    data.name = contactFree[nameIndex];
+    if (nameIndex > 0) lowConfidence.push('name');
+  }
+  const location = contactFree.find((line, i) => i !== nameIndex && /^[\p{L} .'-]+,\s?[\p{L} .'-]+$/u.test(line));
+  if (location) {
+    data.location = location;
+    lowConfidence.push('location');
+  }
+
+  data.linkedinAbout = (sections.get('summary') ?? []).join(' ') || undefined;
+
+  // Education: the first institution and degree mentioned.
+  const education = sections.get('education') ?? [];
+  const collegeLine = education.find((line) => COLLEGE.test(line));
+  const degreeLine = education.find((line) => DEGREE.test(line) && line !== collegeLine) ?? (collegeLine && DEGREE.test(collegeLine) ? collegeLine : undefined);
+  const educationDates = education.map(takeDates).find((result) => result.found);
+  if (collegeLine) data.college = tidy(takeDates(collegeLine.replace(GPA, '')).rest);
+  if (degreeLine) data.degree = tidy(takeDates(degreeLine.replace(GPA, '')).rest);
+  if (collegeLine && collegeLine === degreeLine) {
+    lowConfidence.push('college', 'degree');
+  }
+  data.cgpa = GPA.exec(education.join(' '))?.[2].replace(/\s/g, '') ?? '';
+  if (educationDates) {
+    data.educationStart = educationDates.startDate === educationDates.endDate ? '' : educationDates.startDate;
+    data.educationEnd = educationDates.endDate;
+    data.currentStudent = !data.educationEnd || data.educationEnd >= currentMonth();
+    if (!data.educationEnd) lowConfidence.push('educationEnd');
+  }
+
+  // Skills: labelled lines name their category; unlabelled items are sorted by the skill dictionary.
+  const skillLines = sections.get('skills') ?? [];
+  let unlabelled = false;
+  data.skills = dedupeSkills(skillLines.flatMap((line) => {
+    const label = /^([^:]{2,30}):/.exec(line)?.[1].trim() ?? '';
+    const category = labelCategory(label);
+    if (!category) unlabelled = true;
+    // A dictionary match keeps its own category; unknown skills take the label's.
+    return splitList(line.replace(/^[^:]{2,30}:\s*/, '')).flatMap((item) => canonicalSkill(item, category) ?? []);
+  }));
+  if (unlabelled && data.skills.length > 0) lowConfidence.push('skills');
+
+  data.experience = splitEntries(sections.get('experience') ?? []).map((entry, index): Experience => {
+    const { rest, startDate, endDate } = takeDates(entry.heading.join(' | '));
+    const parts = rest.split(/\s+at\s+|\s*[|,–—]\s*|\s+-\s+/).map(tidy).filter(Boolean);
+    lowConfidence.push(`experience.${index}.title`, `experience.${index}.company`);
+    return {
+      title: parts[0] ?? '',
+      company: parts[1] ?? '',
+      location: parts.slice(2).join(', '),
+      startDate,
+      endDate,
+      bullets: entry.body,
+    };
+  });
+
+  data.projects = splitEntries(sections.get('projects') ?? []).map((entry, index): Project => {
+    const { rest, startDate, endDate } = takeDates(entry.heading.join(' | '));
+    const techLabel = /(?:tech(?:nologies|\s*stack)?|built with|tools)\s*:\s*(.+)$/i;
+    const labelledTech = [rest, ...entry.body].map((line) => techLabel.exec(line)?.[1]).find(Boolean);
+    const [title, ...details] = rest.replace(techLabel, '').split(/\s*[|–—]\s*|\s+-\s+|\s*\(/).map(tidy).filter(Boolean);
+    let technologies = labelledTech ? splitList(labelledTech.replace(/\)$/, '')).join(', ') : details.join(', ').replace(/\)$/, '');
+    if (!technologies) technologies = knownSkills(entry.body.join(' ')).join(', ');
+    // Only a "Tech:" style label says for sure which part of the entry lists technologies.
+    if (technologies && !labelledTech) lowConfidence.push(`projects.${index}.technologies`);
+    return {
+      id: newEntryId(),
+      title: title ?? '',
+      technologies,
+      startDate,
+      endDate,
+      description: entry.body.filter((line) => !techLabel.test(line)).join('\n'),
+    };
+  });
+
+  data.activities = splitEntries(sections.get('activities') ?? []).map((entry, index): Activity => {
+    const { rest, startDate, endDate } = takeDates(entry.heading.join(' | '));
+    lowConfidence.push(`activities.${index}.role`);
+    return { id: newEntryId(), role: tidy(rest), startDate, endDate, achievements: entry.body.join('\n') };
+  });
+
+  const namedItem = (line: string) => {
+    const { rest, startDate } = takeDates(line.replace(BULLET, '').replace(/https?:\/\/\S+/, ''));
+    const [name, issuer] = rest.split(/\s*[|,–—]\s*|\s+-\s+|\s+by\s+/i).map(tidy).filter(Boolean);
+    return { name: name ?? '', issuer: issuer ?? '', date: startDate };
+  };
+
+  data.certifications = (sections.get('certifications') ?? []).map((line): Certification => {
+    const { name, issuer, date } = namedItem(line);
+    return { name, issuer, date, credentialUrl: /(https?:\/\/\S+)/.exec(line)?.[1] ?? '' };
+  });
+
+  data.honors = (sections.get('honors') ?? []).map((line): Honor => {
+    const { name, issuer, date } = namedItem(line);
+    return { title: name, issuer, date, description: '' };
+  });
+
+  return { data, lowConfidence };
+}
@@ -0,0 +1,76 @@
+import type { FontFamily, PageSize, ResumeData, ResumeTheme, TemplateId } from './types';
+
+export const MM_TO_PX = 96 / 25.4;
+
+// Page dimensions in mm; the preview and the PDF both lay out against these.
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+};
+
+// Only fonts jsPDF ships with, so the download looks like the preview.
+export const FONT_FAMILIES: Record<FontFamily, { label: string; css: string; pdf: string; docx: string }> = {
+  sans: { label: 'Sans serif', css: "'Helvetica Neue', Helvetica, Arial, sans-serif", pdf: 'helvetica', docx: 'Arial' },
+  serif: { label: 'Serif', css: "'Times New Roman', Times, serif", pdf: 'times', docx: 'Times New Roman' },
+  mono: { label: 'Monospace', css: "'Courier New', Courier, monospace", pdf: 'courier', docx: 'Courier New' },
+};
+
+const BASE_THEME: ResumeTheme = {
+  pageSize: 'a4',
+  margin: 15,
+  fontFamily: 'sans',
+  fontSize: 10,
+  accent: '#000000',
+  lineSpacing: 1.35,
+  fitToPage: false,
+  targetPages: 1,
+};
+
+export const TEMPLATE_THEMES: Record<TemplateId, ResumeTheme> = {
+  classic: BASE_THEME,
+  modern: { ...BASE_THEME, accent: '#4f46e5' },
+  compact: { ...BASE_THEME, margin: 10, fontSize: 8.5, lineSpacing: 1.25 },
+};
+
+/** The resume's theme with every unset setting taken from its template. */
+export function resolveTheme(data: Pick<ResumeData, 'template' | 'theme'>): ResumeTheme {
+  const overrides = Object.fromEntries(Object.entries(data.theme ?? {}).filter(([, value]) => value !== undefined));
+  return { ...(TEMPLATE_THEMES[data.template ?? 'classic'] ?? BASE_THEME), ...overrides };
+}
+
+// Densities tried, loosest first, when a resume has to fit on one page.
+export const FIT_DENSITIES = [1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4];
+
+/**
+ * Margin (mm), line spacing and the factor applied to the space between
+ * blocks at a given density. Only spacing shrinks; font sizes never do.
+ */
+export function themeSpacing(theme: ResumeTheme, density = 1) {
+  return {
+    margin: Math.min(theme.margin, Math.max(8, theme.margin * density)),
+    lineSpacing: Math.min(theme.lineSpacing, Math.max(1.1, 1 + (theme.lineSpacing - 1) * density)),
+    spacing: density,
+  };
+}
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Black titles get a light grey rule; colored titles are underlined in their own color.
+export const ruleColor = (accent: string) => (/^#0{6}$/.test(accent) ? '#cbd5e1' : accent);
+
+/** CSS custom properties read by `.resume-container` in index.css. */
+export function themeVars(theme: ResumeTheme, density = 1): Record<string, string> {
+  const { margin, lineSpacing, spacing } = themeSpacing(theme, density);
+  return {
+    '--resume-font': FONT_FAMILIES[theme.fontFamily].css,
+    '--resume-font-size': `${theme.fontSize}pt`,
+    '--resume-line-height': String(lineSpacing),
+    '--resume-margin': `${margin}mm`,
+    '--resume-spacing': String(spacing),
+    '--resume-accent': theme.accent,
+    '--resume-rule': ruleColor(theme.accent),
+  };
+}
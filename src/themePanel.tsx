@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Palette, RotateCcw } from 'lucide-react';
+import { FONT_FAMILIES, PAGE_SIZES, TEMPLATE_THEMES, resolveTheme } from './theme';
+import { cn } from './utils';
+import type { FontFamily, PageSize, ResumeData, ResumeTheme } from './types';
+
+const FONT_SIZES = [8, 8.5, 9, 9.5, 10, 10.5, 11, 11.5, 12, 13];
+const TARGET_PAGES = [1, 2, 3];
+const ACCENTS = ['#000000', '#4f46e5', '#1d4ed8', '#0f766e', '#9f1239', '#b45309'];
+
+const optionClass = (active: boolean) => cn(
+  "flex-1 px-3 py-2 rounded-xl border text-sm transition-all",
+  active ? "border-indigo-500 bg-indigo-500/10 text-white" : "border-slate-800 text-slate-400 hover:border-slate-700 hover:text-white"
+);
+
+// Sliders and the color picker are saved when released, not on every step.
+const RangeField = ({ label, value, min, max, step, unit, onCommit }: { label: string; value: number; min: number; max: number; step: number; unit: string; onCommit: (value: number) => void }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => draft !== value && onCommit(draft);
+
+  return (
+    <label className="block">
+      <div className="flex justify-between text-sm text-slate-400 mb-1">
+        <span>{label}</span>
+        <span className="text-white">{draft}{unit}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={(e) => setDraft(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="w-full accent-indigo-500"
+      />
+    </label>
+  );
+};
+
+/**
+ * Preview-page controls for the resume's page size and typography. Settings
+ * left alone follow the template, so switching templates keeps its look.
+ */
+export const ThemePanel = ({ data, onChange }: { data: ResumeData; onChange: (theme: Partial<ResumeTheme> | undefined) => void }) => {
+  const theme = resolveTheme(data);
+  const [accent, setAccent] = useState(theme.accent);
+  useEffect(() => setAccent(theme.accent), [theme.accent]);
+
+  const update = (changes: Partial<ResumeTheme>) => onChange({ ...data.theme, ...changes });
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <Palette className="w-5 h-5 mr-2 text-indigo-400" /> Page & Type
+        </h3>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          disabled={!data.theme || Object.keys(data.theme).length === 0}
+          className="text-xs text-slate-500 enabled:hover:text-white flex items-center disabled:opacity-40"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" /> Template defaults
+        </button>
+      </div>
+
+      <div>
+        <div className="text-sm text-slate-400 mb-1">Page size</div>
+        <div className="flex gap-2">
+          {(Object.keys(PAGE_SIZES) as PageSize[]).map((size) => (
+            <button key={size} type="button" onClick={() => update({ pageSize: size })} className={optionClass(theme.pageSize === size)}>
+              {PAGE_SIZES[size].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm text-slate-400 mb-1">Target length</div>
+        <div className="flex gap-2">
+          {TARGET_PAGES.map((pages) => (
+            <button key={pages} type="button" onClick={() => update({ targetPages: pages })} className={optionClass(theme.targetPages === pages)}>
+              {pages === 1 ? '1 page' : `${pages} pages`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm text-slate-400 mb-1">Font</div>
+        <div className="flex gap-2">
+          {(Object.keys(FONT_FAMILIES) as FontFamily[]).map((family) => (
+            <button
+              key={family}
+              type="button"
+              onClick={() => update({ fontFamily: family })}
+              className={optionClass(theme.fontFamily === family)}
+              style={{ fontFamily: FONT_FAMILIES[family].css }}
+            >
+              {FONT_FAMILIES[family].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <div className="text-sm text-slate-400 mb-1">Base font size</div>
+        <select
+          value={theme.fontSize}
+          onChange={(e) => update({ fontSize: Number(e.target.value) })}
+          className="w-full px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {FONT_SIZES.map((size) => <option key={size} value={size}>{size} pt</option>)}
+        </select>
+      </label>
+
+      <RangeField label="Margins" value={theme.margin} min={8} max={30} step={1} unit=" mm" onCommit={(margin) => update({ margin })} />
+      <RangeField label="Line spacing" value={theme.lineSpacing} min={1} max={2} step={0.05} unit="×" onCommit={(lineSpacing) => update({ lineSpacing })} />
+
+      <div>
+        <div className="text-sm text-slate-400 mb-1">Accent color</div>
+        <div className="flex items-center gap-2">
+          {ACCENTS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => update({ accent: color })}
+              className={cn("w-7 h-7 rounded-full border-2", theme.accent === color ? "border-white" : "border-slate-700")}
+              style={{ backgroundColor: color }}
+              aria-label={`Accent ${color}`}
+            />
+          ))}
+          <input
+            type="color"
+            value={accent}
+            onChange={(e) => setAccent(e.target.value)}
+            onBlur={() => accent !== theme.accent && update({ accent })}
+            className="w-9 h-7 rounded bg-transparent cursor-pointer"
+            aria-label="Custom accent color"
+          />
+        </div>
+        {theme.accent === TEMPLATE_THEMES[data.template ?? 'classic'].accent && <p className="text-xs text-slate-500 mt-1">Template default</p>}
+      </div>
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={theme.fitToPage}
+          onChange={(e) => update({ fitToPage: e.target.checked })}
+          className="mt-1 accent-indigo-500"
+        />
+        <span>
+          <span className="block text-sm text-white">Fit to one page</span>
+          <span className="block text-xs text-slate-500">Tightens margins and spacing until the resume fits. Font sizes don't change.</span>
+        </span>
+      </label>
+    </div>
+  );
+};
@@ -1,28 +1,123 @@
-export interface Project {
-  title: string;
-  description: string;
-  technologies: string;
+// The resume document itself is defined once, by the schema in schema.ts.
+import type { ResumeData } from './schema';
+export type { Activity, Certification, CustomEntry, Experience, Honor, Project, ResumeData, ResumeSection, ResumeVariant, Skill } from './schema';
+
+// Dates are stored as "YYYY-MM" month strings; an empty end date means "Present".
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export type SkillCategory = 'Languages' | 'Frameworks' | 'Databases' | 'Cloud & DevOps' | 'Tools' | 'Concepts' | 'Soft Skills' | 'Other';
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export type TemplateId = 'classic' | 'modern' | 'compact';
+
+export type PageSize = 'a4' | 'letter';
+export type FontFamily = 'sans' | 'serif' | 'mono';
+
+/** Page and typography settings shared by the preview and the PDF export. */
+export interface ResumeTheme {
+  pageSize: PageSize;
+  // Page margin, in mm.
+  margin: number;
+  fontFamily: FontFamily;
+  // Body text size, in pt; headings scale with it.
+  fontSize: number;
+  // Hex color for section titles (and the name, in the Modern template).
+  accent: string;
+  lineSpacing: number;
+  // Tighten spacing until the resume fits on a single page.
+  fitToPage: boolean;
+  // Page count the resume should stay within; the preview warns past it.
+  targetPages: number;
+}
+
+export type SummaryTone = 'formal' | 'enthusiastic' | 'concise';
+export type SummaryAudience = 'internship' | 'research' | 'full-time';
+export type SummaryLength = 'short' | 'medium' | 'long';
+
+export interface SummaryOptions {
+  tone: SummaryTone;
+  audience: SummaryAudience;
+  length: SummaryLength;
+}
+
+/** One request to the summary generator and the variants it returned. */
+export interface SummaryGeneration {
+  createdAt: string;
+  options: SummaryOptions;
+  variants: string[];
 }
 
-export interface Activity {
+export interface CoverLetterTarget {
+  company: string;
   role: string;
-  achievements: string;
+  jobDescription: string;
 }
 
-export interface ResumeData {
-  name: string;
+/** The generated parts of a cover letter; evidence holds two body paragraphs. */
+export interface CoverLetterContent {
+  greeting: string;
+  hook: string;
+  evidence: string[];
+  closing: string;
+}
+
+export interface CoverLetter extends CoverLetterTarget, CoverLetterContent {}
+
+export type RewriteSection = 'projects' | 'activities' | 'experience';
+
+/** Entries whose free-text paragraph can be rewritten into bullets. */
+export type BulletSection = 'projects' | 'activities';
+
+/** A proposed rewording of one entry's description, bullets joined by newlines. */
+export interface TailoringSuggestion {
+  section: RewriteSection;
+  index: number;
+  original: string;
+  suggestion: string;
+}
+
+// Shapes the API returns; the server's stores produce them and the client reads them.
+
+export interface User {
+  id: string;
   email: string;
-  phone: string;
-  linkedin: string;
-  github: string;
-  location: string;
-  college: string;
-  degree: string;
-  year: string;
-  cgpa: string;
-  technicalSkills: string;
-  softSkills: string;
-  projects: Project[];
-  activities: Activity[];
-  linkedinAbout?: string;
+  createdAt: string;
+}
+
+export interface ResumeRecord {
+  id: string;
+  data: ResumeData;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A row in the dashboard's resume list. */
+export interface ResumeSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  variants: { id: string; name: string }[];
+}
+
+// A snapshot taken when the resume was saved from the editor.
+export interface ResumeVersion {
+  id: number;
+  createdAt: string;
+  score: number;
+}
+
+export interface ResumeVersionRecord extends ResumeVersion {
+  data: ResumeData;
+}
+
+// A public, read-only link to the latest version of a resume.
+export interface ShareLink {
+  slug: string;
+  enabled: boolean;
+  expiresAt: string | null;
+  views: number;
+  createdAt: string;
 }
@@ -0,0 +1,20 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+/** Saves generated content through a temporary object URL. */
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** A filesystem-friendly base name derived from the candidate's name and, for a variant, its name. */
+export const fileBaseName = (name: string, variant?: string) =>
+  [name || 'Resume', 'Resume', variant].filter(Boolean).map((part) => part!.trim().replace(/\s+/g, '_')).join('_');
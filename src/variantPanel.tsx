@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Layers, Plus, Trash2 } from 'lucide-react';
+import { newVariant } from './variants';
+import { cn } from './utils';
+import type { ResumeData, ResumeVariant } from './types';
+
+interface SelectionItem {
+  key: string;
+  label: string;
+}
+
+// Chosen entries first, in the variant's order, then the rest of the master's entries unticked.
+const SelectionList = ({ title, items, selected, onChange }: { title: string; items: SelectionItem[]; selected: string[]; onChange: (keys: string[]) => void }) => {
+  const chosen = selected.filter((key) => items.some((item) => item.key === key));
+  const rows = [
+    ...chosen.map((key) => items.find((item) => item.key === key)!),
+    ...items.filter((item) => !chosen.includes(item.key)),
+  ];
+  if (items.length === 0) return null;
+
+  const swap = (index: number, to: number) => {
+    const next = [...chosen];
+    [next[index], next[to]] = [next[to], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="text-sm text-slate-400 mb-1">{title} <span className="text-slate-600">({chosen.length}/{items.length})</span></div>
+      <ul className="space-y-1">
+        {rows.map((item, index) => {
+          const included = index < chosen.length;
+          return (
+            <li key={item.key} className="flex items-center gap-2 px-2 py-1 rounded-lg border border-slate-800">
+              <input
+                type="checkbox"
+                checked={included}
+                onChange={() => onChange(included ? chosen.filter((key) => key !== item.key) : [...chosen, item.key])}
+                className="accent-indigo-500"
+                aria-label={`Include ${item.label}`}
+              />
+              <span className={cn("flex-1 min-w-0 truncate text-sm", included ? "text-white" : "text-slate-500")}>{item.label}</span>
+              {included && (
+                <>
+                  <button type="button" disabled={index === 0} onClick={() => swap(index, index - 1)} className="p-1 text-slate-500 enabled:hover:text-white disabled:opacity-30" aria-label="Move up">
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" disabled={index === chosen.length - 1} onClick={() => swap(index, index + 1)} className="p-1 text-slate-500 enabled:hover:text-white disabled:opacity-30" aria-label="Move down">
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+// The name and summary are saved when their field is left, not on every keystroke.
+const VariantEditor = ({ master, variant, onChange, onDelete }: { master: ResumeData; variant: ResumeVariant; onChange: (changes: Partial<ResumeVariant>) => void; onDelete: () => void }) => {
+  const [name, setName] = useState(variant.name);
+  const [summary, setSummary] = useState(variant.summary);
+  useEffect(() => {
+    setName(variant.name);
+    setSummary(variant.summary);
+  }, [variant.id, variant.name, variant.summary]);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (!next) setName(variant.name);
+    else if (next !== variant.name) onChange({ name: next });
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-slate-800">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          maxLength={60}
+          aria-label="Variant name"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="button" onClick={onDelete} className="px-3 py-2 rounded-xl bg-slate-800 text-slate-400 hover:text-red-400" aria-label="Delete variant">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <SelectionList
+        title="Projects"
+        items={master.projects.map((project) => ({ key: project.id, label: project.title || 'Untitled project' }))}
+        selected={variant.projects}
+        onChange={(projects) => onChange({ projects })}
+      />
+      <SelectionList
+        title="Activities"
+        items={master.activities.map((activity) => ({ key: activity.id, label: activity.role || 'Untitled activity' }))}
+        selected={variant.activities}
+        onChange={(activities) => onChange({ activities })}
+      />
+      <SelectionList
+        title="Skills"
+        items={master.skills.map((skill) => ({ key: skill.name, label: skill.name }))}
+        selected={variant.skills}
+        onChange={(skills) => onChange({ skills })}
+      />
+
+      <label className="block">
+        <div className="text-sm text-slate-400 mb-1">Summary</div>
+        <textarea
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          onBlur={() => summary !== variant.summary && onChange({ summary })}
+          placeholder={master.linkedinAbout || "Leave empty to use the master summary"}
+          className="w-full h-28 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <p className="text-xs text-slate-500 mt-1">Leave empty to use the master summary.</p>
+      </label>
+    </div>
+  );
+};
+
+/**
+ * Preview-page controls for a resume's tailored variants. The resume itself is
+ * the master profile; each variant picks and orders a subset of its projects,
+ * activities and skills and can override the summary.
+ */
+export const VariantPanel = ({ resumeId, master, activeId, onChange }: { resumeId: string; master: ResumeData; activeId: string | null; onChange: (variants: ResumeVariant[]) => void }) => {
+  const navigate = useNavigate();
+  const [newName, setNewName] = useState("");
+  const variants = master.variants ?? [];
+  const active = variants.find((variant) => variant.id === activeId);
+
+  const addVariant = () => {
+    if (!newName.trim()) return;
+    const variant = newVariant(master, newName.trim());
+    onChange([...variants, variant]);
+    setNewName("");
+    navigate(`/preview/${resumeId}?variant=${variant.id}`);
+  };
+
+  const update = (changes: Partial<ResumeVariant>) =>
+    onChange(variants.map((variant) => (variant.id === activeId ? { ...variant, ...changes } : variant)));
+
+  const remove = () => {
+    if (!active) return;
+    onChange(variants.filter((variant) => variant.id !== activeId));
+    navigate(`/preview/${resumeId}`);
+  };
+
+  const linkClass = (current: boolean) => cn(
+    "px-3 py-1.5 rounded-xl border text-sm transition-all",
+    current ? "border-indigo-500 bg-indigo-500/10 text-white" : "border-slate-800 text-slate-400 hover:border-slate-700 hover:text-white"
+  );
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-3xl shadow-sm border border-slate-800 space-y-4">
+      <h3 className="text-xl font-bold text-white flex items-center">
+        <Layers className="w-5 h-5 mr-2 text-indigo-400" /> Variants
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        <Link to={`/preview/${resumeId}`} className={linkClass(!active)}>Master</Link>
+        {variants.map((variant) => (
+          <Link key={variant.id} to={`/preview/${resumeId}?variant=${variant.id}`} className={linkClass(variant.id === active?.id)}>
+            {variant.name}
+          </Link>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        {active
+          ? "Entries are edited on the master, so changes show up in every variant that includes them."
+          : "The master holds every entry. Create a variant to tailor the selection, order and summary for a role."}
+      </p>
+
+      {active && <VariantEditor master={master} variant={active} onChange={update} onDelete={remove} />}
+
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addVariant()}
+          maxLength={60}
+          placeholder="New variant, e.g. Data roles"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="button" onClick={addVariant} disabled={!newName.trim()} className="px-3 py-2 rounded-xl bg-slate-800 text-indigo-400 hover:bg-slate-700 disabled:opacity-50" aria-label="Add variant">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
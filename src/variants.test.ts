@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeResume } from './schema';
+import { applyVariant, applyVariantChanges, masterFieldName, newVariant } from './variants';
+
+const master = normalizeResume({
+  projects: [
+    { id: 'p1', title: 'Campus Market', startDate: '2023-01' },
+    { id: 'p2', title: 'Weather Bot', startDate: '2022-01' },
+    { id: 'p3', title: 'Portfolio', startDate: '2021-01' },
+  ],
+  activities: [{ id: 'a1', role: 'Coding Club Lead' }, { id: 'a2', role: 'Volunteer' }],
+  skills: [{ name: 'TypeScript' }, { name: 'Go' }],
+});
+
+describe('variants', () => {
+  const variant = { ...newVariant(master, 'Data'), projects: ['p3', 'p1'], activities: ['a2'], skills: ['Go'] };
+  const view = applyVariant({ ...master, variants: [variant] }, variant);
+
+  it('prints the selected entries in the variant order', () => {
+    assert.deepEqual(view.projects.map((project) => project.id), ['p3', 'p1']);
+    assert.deepEqual(view.skills.map((skill) => skill.name), ['Go']);
+  });
+
+  it('saves entry edits to the master and its summary to the variant', () => {
+    const next = applyVariantChanges({ ...master, variants: [variant] }, variant.id, {
+      linkedinAbout: 'Data-minded developer',
+      projects: view.projects.map((project) => (project.id === 'p1' ? { ...project, title: 'Campus Market 2' } : project)),
+    });
+    assert.deepEqual(next.projects.map((project) => project.title), ['Campus Market 2', 'Weather Bot', 'Portfolio']);
+    assert.equal(next.linkedinAbout, master.linkedinAbout);
+    assert.equal(next.variants?.[0].summary, 'Data-minded developer');
+  });
+
+  it('maps form fields of the view back to the master entry', () => {
+    assert.equal(masterFieldName(master, view, 'projects.0.description'), 'projects.2.description');
+    assert.equal(masterFieldName(master, view, 'activities.0.role'), 'activities.1.role');
+    assert.equal(masterFieldName(master, view, 'experience.0.title'), 'experience.0.title');
+    assert.equal(masterFieldName(master, view, 'projects'), 'projects');
+  });
+});
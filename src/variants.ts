@@ -0,0 +1,120 @@
+import { sortByRecency } from './dates';
+import { newEntryId } from './schema';
+import { resolveSections } from './sections';
+import type { ResumeData, ResumeSection, ResumeVariant } from './types';
+
+// A resume acts as the master profile: it holds every entry, and each variant
+// only records which of them it shows, in what order, plus its own summary and
+// look. Edits always land on the master, so every variant sees them.
+
+/** A variant with every current entry, in the order the master prints them. */
+export const newVariant = (master: ResumeData, name: string): ResumeVariant => ({
+  id: newEntryId(),
+  name,
+  projects: sortByRecency(master.projects).map((project) => project.id),
+  activities: sortByRecency(master.activities).map((activity) => activity.id),
+  skills: master.skills.map((skill) => skill.name),
+  summary: '',
+});
+
+export const findVariant = (master: ResumeData, id: string | null) =>
+  (id && master.variants?.find((variant) => variant.id === id)) || null;
+
+// Entries in the order of the given keys; keys whose entry was deleted from the master are skipped.
+const pick = <T,>(entries: T[], keys: string[], key: (entry: T) => string) => {
+  const byKey = new Map(entries.map((entry) => [key(entry), entry]));
+  return keys.flatMap((k) => (byKey.has(k) ? [byKey.get(k)!] : []));
+};
+
+// The variant decides order, titles and visibility; custom section entries always come from the master.
+const variantSections = (master: ResumeSection[] = [], layout: ResumeSection[]) => {
+  const fromMaster = new Map(master.map((section) => [section.id, section]));
+  return resolveSections([
+    ...layout.filter((section) => fromMaster.has(section.id)).map((section) => ({ ...section, entries: fromMaster.get(section.id)!.entries })),
+    ...master.filter((section) => !layout.some((own) => own.id === section.id)),
+  ]);
+};
+
+/** The resume a variant prints: the master's details with the variant's selection and overrides. */
+export function applyVariant(master: ResumeData, variant: ResumeVariant): ResumeData {
+  return {
+    ...master,
+    projects: pick(master.projects, variant.projects, (project) => project.id),
+    activities: pick(master.activities, variant.activities, (activity) => activity.id),
+    skills: pick(master.skills, variant.skills, (skill) => skill.name),
+    linkedinAbout: variant.summary.trim() ? variant.summary : master.linkedinAbout,
+    template: variant.template ?? master.template,
+    theme: variant.theme ?? master.theme,
+    sections: variant.sections ? variantSections(master.sections, variant.sections) : master.sections,
+    entryOrder: 'manual',
+    variants: [],
+  };
+}
+
+/**
+ * Points a form field of a variant's view (e.g. "projects.0.title") at the same
+ * entry in the master, which is what the editor shows. Projects and activities
+ * are a reordered subset in the view; everything else lines up already.
+ */
+export function masterFieldName(master: ResumeData, view: ResumeData, field: string) {
+  const match = /^(projects|activities)\.(\d+)(.*)$/.exec(field);
+  if (!match) return field;
+  const section = match[1] as 'projects' | 'activities';
+  const [, , index, rest] = match;
+  const id = view[section][Number(index)]?.id;
+  const masterIndex = master[section].findIndex((entry) => entry.id === id);
+  return masterIndex >= 0 ? `${section}.${masterIndex}${rest}` : section;
+}
+
+// Entries edited through a variant replace the master's entry with the same key; new ones are added to the master.
+const merge = <T,>(entries: T[], edited: T[], key: (entry: T) => string) => {
+  const byKey = new Map(edited.map((entry) => [key(entry), entry]));
+  const known = new Set(entries.map(key));
+  return [...entries.map((entry) => byKey.get(key(entry)) ?? entry), ...edited.filter((entry) => !known.has(key(entry)))];
+};
+
+/**
+ * Saves changes made while viewing a variant. The summary, template, theme and
+ * layout belong to the variant; entry edits (tailoring, rewrites) go to the
+ * master so every other variant gets them too.
+ */
+export function applyVariantChanges(master: ResumeData, variantId: string, changes: Partial<ResumeData>): ResumeData {
+  const variant = findVariant(master, variantId);
+  if (!variant) return { ...master, ...changes };
+
+  // Callers may pass the whole variant view back; only what actually changed is saved,
+  // so inherited values (the master's summary, template...) aren't pinned to the variant.
+  const view = applyVariant(master, variant);
+  const changed: Partial<ResumeData> = Object.fromEntries(
+    Object.entries(changes).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(view[key as keyof ResumeData]))
+  );
+  const { linkedinAbout, template, theme, sections, projects, activities, skills, variants, entryOrder, ...shared } = changed;
+  const next: ResumeData = { ...master, ...shared };
+  const own: ResumeVariant = { ...variant };
+
+  if ('linkedinAbout' in changed) own.summary = linkedinAbout ?? '';
+  if ('template' in changed) own.template = template;
+  // Resetting the theme in a variant means the template's defaults, not the master's theme.
+  if ('theme' in changed) own.theme = theme ?? {};
+  if (sections) {
+    // Only the layout is kept; custom section entries are edited on the master, which also gets sections added here.
+    const masterSections = resolveSections(master.sections);
+    const added = sections.filter((section) => !masterSections.some((known) => known.id === section.id));
+    if (added.length > 0) next.sections = [...masterSections, ...added];
+    own.sections = sections.map(({ id, title, hidden }) => ({ id, title, hidden }));
+  }
+  if (projects) {
+    next.projects = merge(master.projects, projects, (project) => project.id);
+    own.projects = projects.map((project) => project.id);
+  }
+  if (activities) {
+    next.activities = merge(master.activities, activities, (activity) => activity.id);
+    own.activities = activities.map((activity) => activity.id);
+  }
+  if (skills) {
+    next.skills = merge(master.skills, skills, (skill) => skill.name);
+    own.skills = skills.map((skill) => skill.name);
+  }
+
+  return { ...next, variants: (master.variants ?? []).map((other) => (other.id === variantId ? own : other)) };
+}